@@ -22,30 +22,65 @@
 
 import {SourceMap} from "./sourcemap";
 import {Path} from "./path";
+import {luaAssert} from "./luafuncs";
 
 export interface Breakpoint extends LuaDebug.Breakpoint {
+    requestedFile: string;
+    requestedLine: number;
     sourceFile?: string;
     sourceLine?: number;
     sourceMap?: SourceMap;
 }
 
+export interface DataBreakpoint extends LuaDebug.DataBreakpoint {
+    tbl: Record<string, unknown>;
+    key: string;
+    value: unknown;
+}
+
 export namespace Breakpoint {
     export interface BreakpointSet {
         [line: number]: Breakpoint[] | undefined;
     }
 
+    //Finds the lines with code on them in a script, or returns undefined if it hasn't been loaded yet
+    export interface LineLookup {
+        (this: void, file: string): LuaTable<number, boolean | undefined> | undefined;
+    }
+
     const current: BreakpointSet = {};
     let count = 0;
+    let nextBreakpointId = 1;
+
+    const functionBreakpoints: LuaDebug.FunctionBreakpoint[] = [];
 
-    export function get(file: string, line: number): LuaDebug.Breakpoint | undefined {
+    //Table fields which data breakpoints can be set on, held weakly so inspecting them doesn't leak tables
+    interface DataTarget {
+        key: string;
+        description: string;
+    }
+    const dataTargetTables = setmetatable(
+        new LuaTable<string, Record<string, unknown> | undefined>(),
+        {__mode: "v"}
+    );
+    const dataTargets = new LuaTable<string, DataTarget | undefined>();
+    let nextDataTargetId = 1;
+
+    const dataBreakpoints: DataBreakpoint[] = [];
+
+    //Break on all errors until told otherwise
+    const exceptionFilters: LuaDebug.ExceptionFilter[] = [
+        {kind: "runtime"},
+        {kind: "error"},
+        {kind: "assert"},
+        {kind: "coroutine"}
+    ];
+
+    export function get(file: string, line: number): Breakpoint | undefined {
         file = Path.format(file);
-        for (const [breakpointLine, lineBreakpoints] of pairs(current)) {
+        for (const [_, lineBreakpoints] of pairs(current)) {
             for (const breakpoint of lineBreakpoints) {
-                if (breakpoint.sourceMap) {
-                    if (breakpoint.sourceLine === line && breakpoint.sourceFile === file) {
-                        return breakpoint;
-                    }
-                } else if (breakpointLine === line && breakpoint.file === file) {
+                if (breakpoint.requestedLine === line && breakpoint.requestedFile === file) {
                     return breakpoint;
                 }
             }
@@ -66,52 +101,153 @@ export namespace Breakpoint {
         return breakpointList;
     }
 
-    export function add(file: string, line: number, condition?: string): void {
-        file = Path.format(file);
+    //Prefer the closest line, or the later one if two are equally close
+    function isCloserLine(line: number, bestLine: number | undefined, targetLine: number) {
+        if (bestLine === undefined) {
+            return true;
+        }
+        const distance = math.abs(line - targetLine);
+        const bestDistance = math.abs(bestLine - targetLine);
+        return distance < bestDistance || (distance === bestDistance && line > bestLine);
+    }
+
+    function insertBreakpoint(breakpoint: Breakpoint) {
+        let lineBreakpoints = current[breakpoint.line];
+        if (!lineBreakpoints) {
+            lineBreakpoints = [];
+            current[breakpoint.line] = lineBreakpoints;
+        }
+        table.insert(lineBreakpoints, breakpoint);
+    }
+
+    function removeBreakpoint(breakpointLine: number, lineBreakpoints: Breakpoint[], i: number) {
+        table.remove(lineBreakpoints, i);
+        if (lineBreakpoints.length === 0) {
+            current[breakpointLine] = undefined;
+        }
+    }
+
+    //Move a breakpoint to the nearest line with code on it, once the script it's in has been loaded
+    function resolve(breakpoint: Breakpoint, getLines: LineLookup) {
+        const file = breakpoint.requestedFile;
+        const line = breakpoint.requestedLine;
+        breakpoint.file = file;
+        breakpoint.line = line;
+        breakpoint.sourceFile = undefined;
+        breakpoint.sourceLine = undefined;
+        breakpoint.sourceMap = undefined;
+        breakpoint.verified = false;
 
-        let sourceFile: string | undefined;
-        let sourceLine: number | undefined;
         const [scriptFile, sourceMap] = SourceMap.find(file);
         if (scriptFile && sourceMap) {
+            //Without the script's lines, only an exact mapping can be used
+            const lines = getLines(scriptFile);
+            let bestScriptLine: number | undefined;
+            let bestSourceLine: number | undefined;
             for (const [scriptLine, mapping] of pairs(sourceMap.mappings)) {
-                if (mapping.sourceLine === line) {
-                    sourceFile = file;
-                    file = scriptFile;
-                    sourceLine = line;
-                    line = scriptLine;
-                    break;
+                if (sourceMap.sources[mapping.sourceIndex] === file
+                    && (lines !== undefined || mapping.sourceLine === line)
+                    && (lines === undefined || lines.get(scriptLine) === true)
+                ) {
+                    if (mapping.sourceLine === bestSourceLine) {
+                        if (scriptLine < luaAssert(bestScriptLine)) {
+                            bestScriptLine = scriptLine;
+                        }
+                    } else if (isCloserLine(mapping.sourceLine, bestSourceLine, line)) {
+                        bestScriptLine = scriptLine;
+                        bestSourceLine = mapping.sourceLine;
+                    }
+                }
+            }
+            if (bestScriptLine !== undefined) {
+                breakpoint.file = scriptFile;
+                breakpoint.line = bestScriptLine;
+                breakpoint.sourceFile = file;
+                breakpoint.sourceLine = bestSourceLine;
+                breakpoint.sourceMap = sourceMap;
+                breakpoint.verified = lines !== undefined;
+            }
+            breakpoint.message = lines ? "no code on line" : "file not loaded";
+
+        } else {
+            const lines = getLines(file);
+            if (lines) {
+                let bestLine: number | undefined;
+                for (const [activeLine] of pairs(lines)) {
+                    if (isCloserLine(activeLine, bestLine, line)) {
+                        bestLine = activeLine;
+                    }
+                }
+                if (bestLine !== undefined) {
+                    breakpoint.line = bestLine;
+                    breakpoint.verified = true;
                 }
+                breakpoint.message = "no code on line";
+
+            } else if (file.sub(-4) === ".lua") {
+                breakpoint.message = "file not loaded";
+
+            } else {
+                const [fileName] = file.match("[^/\\]*$");
+                breakpoint.message = `no source map for ${fileName ?? file}`;
             }
         }
 
-        let lineBreakpoints = current[line];
-        if (!lineBreakpoints) {
-            lineBreakpoints = [];
-            current[line] = lineBreakpoints;
+        if (breakpoint.verified) {
+            breakpoint.message = undefined;
         }
-        table.insert(lineBreakpoints, {file, line, enabled: true, condition, sourceFile, sourceLine, sourceMap});
+        return breakpoint.verified;
+    }
+
+    export function add(file: string, line: number, getLines: LineLookup, condition?: string): Breakpoint {
+        file = Path.format(file);
+        const breakpoint: Breakpoint = {
+            id: nextBreakpointId,
+            file,
+            line,
+            enabled: true,
+            verified: false,
+            condition,
+            hitCount: 0,
+            requestedFile: file,
+            requestedLine: line
+        };
+        ++nextBreakpointId;
+        resolve(breakpoint, getLines);
+        insertBreakpoint(breakpoint);
         ++count;
+        return breakpoint;
     }
 
-    function removeBreakpoint(breakpointLine: number, lineBreakpoints: Breakpoint[], i: number) {
-        table.remove(lineBreakpoints, i);
-        if (lineBreakpoints.length === 0) {
-            current[breakpointLine] = undefined;
+    //Try unverified breakpoints again after a script loads, returning the ones which are now verified
+    export function resolvePending(getLines: LineLookup): Breakpoint[] {
+        const resolved: Breakpoint[] = [];
+        for (const breakpoint of getAll()) {
+            if (!breakpoint.verified) {
+                const lineBreakpoints = luaAssert(current[breakpoint.line]);
+                for (const [i, lineBreakpoint] of ipairs(lineBreakpoints)) {
+                    if (lineBreakpoint === breakpoint) {
+                        removeBreakpoint(breakpoint.line, lineBreakpoints, i);
+                        break;
+                    }
+                }
+                const verified = resolve(breakpoint, getLines);
+                insertBreakpoint(breakpoint);
+                if (verified) {
+                    table.insert(resolved, breakpoint);
+                }
+            }
         }
-        --count;
+        return resolved;
     }
 
     export function remove(file: string, line: number): void {
         file = Path.format(file);
         for (const [breakpointLine, lineBreakpoints] of pairs(current)) {
             for (const [i, breakpoint] of ipairs(lineBreakpoints)) {
-                if (breakpoint.sourceMap) {
-                    if (breakpoint.sourceLine === line && breakpoint.sourceFile === file) {
-                        removeBreakpoint(breakpointLine, lineBreakpoints, i);
-                        return;
-                    }
-                } else if (breakpointLine === line && breakpoint.file === file) {
+                if (breakpoint.requestedLine === line && breakpoint.requestedFile === file) {
                     removeBreakpoint(breakpointLine, lineBreakpoints, i);
+                    --count;
                     return;
                 }
             }
@@ -128,4 +264,82 @@ export namespace Breakpoint {
     export function getCount(): number {
         return count;
     }
+
+    export function addFunction(name: string, condition?: string): void {
+        table.insert(functionBreakpoints, {name, enabled: true, condition});
+    }
+
+    export function getFunctions(): LuaDebug.FunctionBreakpoint[] {
+        return functionBreakpoints;
+    }
+
+    export function clearFunctions(): void {
+        while (functionBreakpoints.length > 0) {
+            table.remove(functionBreakpoints);
+        }
+    }
+
+    export function addDataTarget(tbl: Record<string, unknown>, key: string, description: string): string {
+        for (const [id, targetTable] of pairs(dataTargetTables)) {
+            const target = dataTargets.get(id);
+            if (targetTable === tbl && target !== undefined && target.key === key) {
+                return id;
+            }
+        }
+        const id = tostring(nextDataTargetId);
+        ++nextDataTargetId;
+        dataTargetTables.set(id, tbl);
+        dataTargets.set(id, {key, description});
+        return id;
+    }
+
+    export function addData(id: string, condition?: string): DataBreakpoint | undefined {
+        const tbl = dataTargetTables.get(id);
+        const target = dataTargets.get(id);
+        if (tbl === undefined || target === undefined) {
+            return undefined;
+        }
+        const breakpoint: DataBreakpoint = {
+            id,
+            description: target.description,
+            enabled: true,
+            condition,
+            tbl,
+            key: target.key,
+            value: rawget(tbl, target.key)
+        };
+        table.insert(dataBreakpoints, breakpoint);
+        return breakpoint;
+    }
+
+    export function getData(): DataBreakpoint[] {
+        return dataBreakpoints;
+    }
+
+    export function clearData(): void {
+        while (dataBreakpoints.length > 0) {
+            table.remove(dataBreakpoints);
+        }
+    }
+
+    //Take new snapshots of watched values, so changes made while stopped don't trigger breaks
+    export function refreshData(): void {
+        for (const breakpoint of dataBreakpoints) {
+            breakpoint.value = rawget(breakpoint.tbl, breakpoint.key);
+        }
+    }
+
+    export function addException(kind: LuaDebug.ErrorKind, pattern?: string): void {
+        table.insert(exceptionFilters, {kind, pattern});
+    }
+
+    export function getExceptions(): LuaDebug.ExceptionFilter[] {
+        return exceptionFilters;
+    }
+
+    export function clearExceptions(): void {
+        while (exceptionFilters.length > 0) {
+            table.remove(exceptionFilters);
+        }
+    }
 }
@@ -0,0 +1,650 @@
+//MIT License
+//
+//Copyright (c) 2020 Tom Blind
+//
+//Permission is hereby granted, free of charge, to any person obtaining a copy
+//of this software and associated documentation files (the "Software"), to deal
+//in the Software without restriction, including without limitation the rights
+//to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//copies of the Software, and to permit persons to whom the Software is
+//furnished to do so, subject to the following conditions:
+//
+//The above copyright notice and this permission notice shall be included in all
+//copies or substantial portions of the Software.
+//
+//THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+//SOFTWARE.
+
+import {luaAssert, luaError} from "./luafuncs";
+
+export namespace Bytecode {
+    export type LuaFunction = Exclude<debug.FunctionInfo["func"], undefined>;
+
+    interface Reader {
+        data: string;
+        position: number;
+        version: number;
+        intSize: number;
+        sizeTSize: number;
+        integerSize: number;
+        numberSize: number;
+        integralNumbers: boolean;
+    }
+
+    interface Prototype {
+        parameters: number;
+        isVararg: boolean;
+        code: number[];
+        constants: string[];
+        lines: number[];
+        prototypes: Prototype[];
+    }
+
+    type OperandMode = "ABC" | "ABx" | "AsBx" | "Ax" | "sJ";
+
+    interface OpcodeSet {
+        names: string[];
+        modes: Record<string, OperandMode | undefined>;
+    }
+
+    function createOpcodeSet(names: string, modes: string): OpcodeSet {
+        const opcodeSet: OpcodeSet = {names: [], modes: {}};
+        for (const [name] of names.gmatch("%S+")) {
+            table.insert(opcodeSet.names, name);
+        }
+        for (const [name, mode] of modes.gmatch("(%w+)=(%w+)")) {
+            opcodeSet.modes[name] = mode as OperandMode;
+        }
+        return opcodeSet;
+    }
+
+    const opcodeSets: { [version: number]: OpcodeSet | undefined } = {};
+    opcodeSets[0x51] = createOpcodeSet(
+        "MOVE LOADK LOADBOOL LOADNIL GETUPVAL GETGLOBAL GETTABLE SETGLOBAL SETUPVAL SETTABLE NEWTABLE SELF"
+            + " ADD SUB MUL DIV MOD POW UNM NOT LEN CONCAT JMP EQ LT LE TEST TESTSET CALL TAILCALL RETURN"
+            + " FORLOOP FORPREP TFORLOOP SETLIST CLOSE CLOSURE VARARG",
+        "LOADK=ABx GETGLOBAL=ABx SETGLOBAL=ABx JMP=AsBx FORLOOP=AsBx FORPREP=AsBx CLOSURE=ABx"
+    );
+    opcodeSets[0x52] = createOpcodeSet(
+        "MOVE LOADK LOADKX LOADBOOL LOADNIL GETUPVAL GETTABUP GETTABLE SETTABUP SETUPVAL SETTABLE NEWTABLE"
+            + " SELF ADD SUB MUL DIV MOD POW UNM NOT LEN CONCAT JMP EQ LT LE TEST TESTSET CALL TAILCALL RETURN"
+            + " FORLOOP FORPREP TFORCALL TFORLOOP SETLIST CLOSURE VARARG EXTRAARG",
+        "LOADK=ABx LOADKX=ABx JMP=AsBx FORLOOP=AsBx FORPREP=AsBx TFORLOOP=AsBx CLOSURE=ABx EXTRAARG=Ax"
+    );
+    opcodeSets[0x53] = createOpcodeSet(
+        "MOVE LOADK LOADKX LOADBOOL LOADNIL GETUPVAL GETTABUP GETTABLE SETTABUP SETUPVAL SETTABLE NEWTABLE"
+            + " SELF ADD SUB MUL MOD POW DIV IDIV BAND BOR BXOR SHL SHR UNM BNOT NOT LEN CONCAT JMP EQ LT LE"
+            + " TEST TESTSET CALL TAILCALL RETURN FORLOOP FORPREP TFORCALL TFORLOOP SETLIST CLOSURE VARARG"
+            + " EXTRAARG",
+        "LOADK=ABx LOADKX=ABx JMP=AsBx FORLOOP=AsBx FORPREP=AsBx TFORLOOP=AsBx CLOSURE=ABx EXTRAARG=Ax"
+    );
+    opcodeSets[0x54] = createOpcodeSet(
+        "MOVE LOADI LOADF LOADK LOADKX LOADFALSE LFALSESKIP LOADTRUE LOADNIL GETUPVAL SETUPVAL GETTABUP"
+            + " GETTABLE GETI GETFIELD SETTABUP SETTABLE SETI SETFIELD NEWTABLE SELF ADDI ADDK SUBK MULK MODK"
+            + " POWK DIVK IDIVK BANDK BORK BXORK SHRI SHLI ADD SUB MUL MOD POW DIV IDIV BAND BOR BXOR SHL SHR"
+            + " MMBIN MMBINI MMBINK UNM BNOT NOT LEN CONCAT CLOSE TBC JMP EQ LT LE EQK EQI LTI LEI GTI GEI TEST"
+            + " TESTSET CALL TAILCALL RETURN RETURN0 RETURN1 FORLOOP FORPREP TFORPREP TFORCALL TFORLOOP SETLIST"
+            + " CLOSURE VARARG VARARGPREP EXTRAARG",
+        "LOADI=AsBx LOADF=AsBx LOADK=ABx LOADKX=ABx JMP=sJ FORLOOP=ABx FORPREP=ABx TFORPREP=ABx TFORLOOP=ABx"
+            + " CLOSURE=ABx EXTRAARG=Ax"
+    );
+
+    //Operands which index the constant table, keyed by opcode name
+    const registerOrConstantOps: Record<string, true | undefined> = {};
+    for (const [name] of (
+        "GETTABLE SETTABLE SELF ADD SUB MUL DIV MOD POW IDIV BAND BOR BXOR SHL SHR EQ LT LE GETTABUP SETTABUP"
+    ).gmatch("%S+")) {
+        registerOrConstantOps[name] = true;
+    }
+    const constantBOps: Record<string, true | undefined> = {SETTABUP: true, SETFIELD: true, EQK: true};
+    const constantCOps: Record<string, true | undefined> = {GETTABUP: true, GETFIELD: true};
+    for (const [name] of "ADDK SUBK MULK MODK POWK DIVK IDIVK BANDK BORK BXORK".gmatch("%S+")) {
+        constantCOps[name] = true;
+    }
+    const optionalConstantCOps: Record<string, true | undefined> = {
+        SETTABUP: true,
+        SETTABLE: true,
+        SETI: true,
+        SETFIELD: true,
+        SELF: true
+    };
+
+    const maxStringLength = 40;
+
+    function formatString(str: string) {
+        //%q escapes newlines with a backslash followed by an actual newline
+        const [quoted] = string.format("%q", str.sub(1, maxStringLength)).gsub("\\\n", "\\n");
+        return str.length > maxStringLength ? `${quoted}...` : quoted;
+    }
+
+    function readByte(reader: Reader) {
+        const [byte] = string.byte(reader.data, reader.position);
+        if (byte === undefined) {
+            return luaError("unexpected end of bytecode");
+        }
+        ++reader.position;
+        return byte;
+    }
+
+    //Dumps are assumed to be little-endian, which is checked when reading the header
+    function readUnsigned(reader: Reader, size: number) {
+        let value = 0;
+        for (const i of $range(0, size - 1)) {
+            value += readByte(reader) * 256 ** i;
+        }
+        return math.floor(value);
+    }
+
+    function readSigned(reader: Reader, size: number) {
+        const value = readUnsigned(reader, size);
+        return value >= 2 ** (size * 8 - 1) ? math.floor(value - 2 ** (size * 8)) : value;
+    }
+
+    function readVarint(reader: Reader) {
+        let value = 0;
+        while (true) {
+            const byte = readByte(reader);
+            value = value * 128 + byte % 128;
+            if (byte >= 128) {
+                return value;
+            }
+        }
+    }
+
+    function readNumber(reader: Reader) {
+        if (reader.integralNumbers) {
+            return readSigned(reader, reader.numberSize);
+        } else if (reader.numberSize !== 8) {
+            return luaError(`unsupported number size ${reader.numberSize}`);
+        }
+        const low = readUnsigned(reader, 4);
+        const high = readUnsigned(reader, 4);
+        const sign = high >= 2 ** 31 ? -1 : 1;
+        const exponent = math.floor(high / 2 ** 20) % 2048;
+        const mantissa = high % 2 ** 20 * 2 ** 32 + low;
+        if (exponent === 0) {
+            return sign * mantissa * 2 ** -1074;
+        } else if (exponent === 2047) {
+            return mantissa === 0 ? sign * math.huge : 0 / 0;
+        }
+        return sign * (1 + mantissa / 2 ** 52) * 2 ** (exponent - 1023);
+    }
+
+    function readCount(reader: Reader) {
+        return reader.version === 0x54 ? readVarint(reader) : readUnsigned(reader, reader.intSize);
+    }
+
+    function readString(reader: Reader) {
+        let size: number;
+        if (reader.version === 0x54) {
+            size = readVarint(reader);
+        } else if (reader.version === 0x53) {
+            size = readByte(reader);
+            if (size === 0xFF) {
+                size = readUnsigned(reader, reader.sizeTSize);
+            }
+        } else {
+            size = readUnsigned(reader, reader.sizeTSize);
+        }
+        if (size === 0) {
+            return undefined;
+        }
+        const str = reader.data.sub(reader.position, reader.position + size - 2);
+
+        //Lua 5.1 and 5.2 also dump the string's terminating zero
+        reader.position += reader.version <= 0x52 ? size : size - 1;
+        return str;
+    }
+
+    function readConstant(reader: Reader) {
+        const constantType = readByte(reader);
+        if (constantType === 0) {
+            return "nil";
+        } else if (constantType === 4 || constantType === 20) {
+            return formatString(readString(reader) ?? "");
+        } else if (reader.version === 0x54) {
+            if (constantType === 1) {
+                return "false";
+            } else if (constantType === 17) {
+                return "true";
+            } else if (constantType === 3) {
+                return tostring(readSigned(reader, reader.integerSize));
+            } else if (constantType === 19) {
+                return tostring(readNumber(reader));
+            }
+        } else if (constantType === 1) {
+            return readByte(reader) !== 0 ? "true" : "false";
+        } else if (constantType === 3) {
+            return tostring(readNumber(reader));
+        } else if (constantType === 19 && reader.version === 0x53) {
+            return tostring(readSigned(reader, reader.integerSize));
+        }
+        return luaError(`unknown constant type ${constantType}`);
+    }
+
+    function readFunction(reader: Reader): Prototype {
+        const version = reader.version;
+        if (version !== 0x52) {
+            readString(reader); //Source
+        }
+        const lineDefined = readCount(reader);
+        readCount(reader); //Last line defined
+        if (version === 0x51) {
+            readByte(reader); //Upvalue count
+        }
+        const parameters = readByte(reader);
+        const isVararg = readByte(reader) !== 0;
+        readByte(reader); //Stack size
+
+        const code: number[] = [];
+        for (const _ of $range(1, readCount(reader))) {
+            table.insert(code, readUnsigned(reader, 4));
+        }
+
+        const constants: string[] = [];
+        for (const _ of $range(1, readCount(reader))) {
+            table.insert(constants, readConstant(reader));
+        }
+
+        //Upvalues aren't needed, but their layout differs between versions
+        const prototypes: Prototype[] = [];
+        if (version <= 0x52) {
+            for (const _ of $range(1, readCount(reader))) {
+                table.insert(prototypes, readFunction(reader));
+            }
+        }
+        if (version >= 0x52) {
+            for (const _ of $range(1, readCount(reader))) {
+                reader.position += version === 0x54 ? 3 : 2;
+            }
+        }
+        if (version >= 0x53) {
+            for (const _ of $range(1, readCount(reader))) {
+                table.insert(prototypes, readFunction(reader));
+            }
+        }
+        if (version === 0x52) {
+            readString(reader); //Source
+        }
+
+        const lines: number[] = [];
+        if (version === 0x54) {
+            //Lines are stored as deltas, with occasional absolute lines for large jumps
+            const deltas: number[] = [];
+            for (const _ of $range(1, readCount(reader))) {
+                const delta = readByte(reader);
+                table.insert(deltas, delta >= 128 ? delta - 256 : delta);
+            }
+            const absoluteLines = new LuaTable<number, number>();
+            for (const _ of $range(1, readCount(reader))) {
+                const pc = readVarint(reader);
+                absoluteLines.set(pc, readVarint(reader));
+            }
+            let line = lineDefined;
+            for (const i of $range(0, deltas.length - 1)) {
+                const delta = luaAssert(deltas[i]);
+                line = delta === -128 ? absoluteLines.get(i) : line + delta;
+                table.insert(lines, line);
+            }
+        } else {
+            for (const _ of $range(1, readCount(reader))) {
+                table.insert(lines, readUnsigned(reader, reader.intSize));
+            }
+        }
+
+        for (const _ of $range(1, readCount(reader))) {
+            readString(reader); //Local name
+            readCount(reader); //Start pc
+            readCount(reader); //End pc
+        }
+        for (const _ of $range(1, readCount(reader))) {
+            readString(reader); //Upvalue name
+        }
+
+        return {parameters, isVararg, code, constants, lines, prototypes};
+    }
+
+    function readHeader(data: string): Reader {
+        if (data.sub(1, 4) !== `${string.char(27)}Lua`) {
+            return luaError("unrecognized bytecode format");
+        }
+        const reader: Reader = {
+            data,
+            position: 5,
+            version: 0,
+            intSize: 4,
+            sizeTSize: 8,
+            integerSize: 8,
+            numberSize: 8,
+            integralNumbers: false
+        };
+        reader.version = readByte(reader);
+        readByte(reader); //Format
+        let instructionSize: number;
+        if (reader.version === 0x51 || reader.version === 0x52) {
+            if (readByte(reader) !== 1) {
+                return luaError("unsupported big-endian bytecode");
+            }
+            reader.intSize = readByte(reader);
+            reader.sizeTSize = readByte(reader);
+            instructionSize = readByte(reader);
+            reader.numberSize = readByte(reader);
+            reader.integralNumbers = readByte(reader) !== 0;
+            if (reader.version === 0x52) {
+                reader.position += 6; //Tail
+            }
+        } else if (reader.version === 0x53 || reader.version === 0x54) {
+            reader.position += 6; //Data check
+            if (reader.version === 0x53) {
+                reader.intSize = readByte(reader);
+                reader.sizeTSize = readByte(reader);
+            }
+            instructionSize = readByte(reader);
+            reader.integerSize = readByte(reader);
+            reader.numberSize = readByte(reader);
+            if (readByte(reader) !== 0x78) { //Low byte of check integer 0x5678
+                return luaError("unsupported big-endian bytecode");
+            }
+            reader.position += reader.integerSize - 1 + reader.numberSize;
+            readByte(reader); //Main function upvalue count
+        } else {
+            return luaError(`unsupported bytecode version ${string.format("%X", reader.version)}`);
+        }
+        if (instructionSize !== 4) {
+            return luaError(`unsupported instruction size ${instructionSize}`);
+        }
+        return reader;
+    }
+
+    function getField(instruction: number, position: number, size: number) {
+        return math.floor(instruction / 2 ** position % 2 ** size);
+    }
+
+    function decodeInstruction(
+        version: number,
+        opcodeSet: OpcodeSet,
+        prototype: Prototype,
+        pc: number
+    ): LuaDebug.Instruction {
+        const code = luaAssert(prototype.code[pc - 1]);
+        const isLua54 = version === 0x54;
+        const op = isLua54 ? getField(code, 0, 7) : getField(code, 0, 6);
+        const opcode = opcodeSet.names[op] ?? `OP_${op}`;
+        const mode = opcodeSet.modes[opcode] ?? "ABC";
+        const a = isLua54 ? getField(code, 7, 8) : getField(code, 6, 8);
+        const bx = isLua54 ? getField(code, 15, 17) : getField(code, 14, 18);
+        const sBx = isLua54 ? bx - 65535 : bx - 131071;
+
+        let operands: string;
+        let jumpTarget: number | undefined;
+        const constants: string[] = [];
+        const addConstant = (index: number) => {
+            table.insert(constants, prototype.constants[index] ?? "?");
+        };
+        if (mode === "ABx") {
+            operands = `${a} ${bx}`;
+            if (opcode === "LOADK" || opcode === "GETGLOBAL" || opcode === "SETGLOBAL") {
+                addConstant(bx);
+            } else if (opcode === "FORLOOP" || opcode === "TFORLOOP") {
+                jumpTarget = pc + 1 - bx;
+            } else if (opcode === "FORPREP") {
+                jumpTarget = pc + bx + 2;
+            } else if (opcode === "TFORPREP") {
+                jumpTarget = pc + bx + 1;
+            }
+        } else if (mode === "AsBx") {
+            operands = `${a} ${sBx}`;
+            if (!isLua54) {
+                jumpTarget = pc + sBx + 1;
+            }
+        } else if (mode === "Ax") {
+            operands = `${isLua54 ? getField(code, 7, 25) : getField(code, 6, 26)}`;
+        } else if (mode === "sJ") {
+            const sJ = getField(code, 7, 25) - 16777215;
+            operands = `${sJ}`;
+            jumpTarget = pc + sJ + 1;
+        } else if (isLua54) {
+            const k = getField(code, 15, 1) !== 0;
+            const b = getField(code, 16, 8);
+            const c = getField(code, 24, 8);
+            operands = `${a} ${b} ${c}${k ? "k" : ""}`;
+            if (constantBOps[opcode]) {
+                addConstant(b);
+            }
+            if (constantCOps[opcode] || (k && optionalConstantCOps[opcode])) {
+                addConstant(c);
+            }
+        } else {
+            const b = getField(code, 23, 9);
+            const c = getField(code, 14, 9);
+            operands = `${a} ${b} ${c}`;
+            if (registerOrConstantOps[opcode]) {
+                if (b >= 256) {
+                    addConstant(b - 256);
+                }
+                if (c >= 256) {
+                    addConstant(c - 256);
+                }
+            }
+        }
+
+        const instruction: LuaDebug.Instruction = {pc, opcode, operands, line: prototype.lines[pc - 1]};
+        if (jumpTarget !== undefined) {
+            instruction.comment = `to ${jumpTarget}`;
+        } else if (constants.length > 0) {
+            instruction.comment = table.concat(constants, " ");
+        }
+        return instruction;
+    }
+
+    function disassembleDump(func: LuaFunction) {
+        const reader = readHeader(string.dump(func));
+        const opcodeSet = luaAssert(opcodeSets[reader.version]);
+        const prototype = readFunction(reader);
+        const instructions: LuaDebug.Instruction[] = [];
+        for (const pc of $range(1, prototype.code.length)) {
+            table.insert(instructions, decodeInstruction(reader.version, opcodeSet, prototype, pc));
+        }
+        return instructions;
+    }
+
+    function addPrototypeLines(prototype: Prototype, lines: LuaTable<number, boolean | undefined>) {
+        for (const line of prototype.lines) {
+            lines.set(line, true);
+        }
+        for (const nestedPrototype of prototype.prototypes) {
+            addPrototypeLines(nestedPrototype, lines);
+        }
+    }
+
+    function getDumpLines(func: LuaFunction) {
+        const lines = new LuaTable<number, boolean | undefined>();
+        addPrototypeLines(readFunction(readHeader(string.dump(func))), lines);
+        return lines;
+    }
+
+    interface JitUtil {
+        funcbc: (
+            this: void,
+            func: LuaFunction,
+            pc: number
+        ) => LuaMultiReturn<[number, number] | [undefined, undefined]>;
+        funcinfo: (
+            this: void,
+            func: LuaFunction,
+            pc?: number
+        ) => { currentline?: number; params?: number; isvararg?: boolean };
+        funck: (this: void, func: LuaFunction, index: number) => unknown;
+    }
+
+    //LuaJIT's bytecode format isn't stable, so its own introspection library is used instead
+    function disassembleJit(func: LuaFunction) {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const [hasJitUtil, jitUtilModule] = pcall(require, "jit.util");
+        if (!hasJitUtil) {
+            return luaError("jit.util is not available");
+        }
+        const jitUtil = jitUtilModule as JitUtil;
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const [hasVmDef, vmDef] = pcall(require, "jit.vmdef");
+        const opcodeNames = hasVmDef ? (vmDef as { bcnames: string }).bcnames : undefined;
+        const instructions: LuaDebug.Instruction[] = [];
+        let pc = 1;
+        while (true) {
+            const [instructionCode, mode] = jitUtil.funcbc(func, pc);
+            if (instructionCode === undefined || mode === undefined) {
+                break;
+            }
+            let code = instructionCode;
+            if (code < 0) {
+                code += 2 ** 32;
+            }
+            const op = getField(code, 0, 8);
+            const [opcode] = opcodeNames !== undefined ? opcodeNames.sub(op * 6 + 1, op * 6 + 6).match("%S+") : [];
+            const a = getField(code, 8, 8);
+            let d = getField(code, 16, 16);
+            const modeA = mode % 8;
+            const modeB = getField(mode, 3, 4);
+            const modeC = getField(mode, 7, 4);
+
+            const operands: string[] = [];
+            if (modeA !== 0) {
+                table.insert(operands, `${a}`);
+            }
+            let comment: string | undefined;
+            if (modeC === 13) { //Jump
+                comment = `to ${pc + d - 0x7fff}`;
+                table.insert(operands, `${d - 0x8000}`);
+            } else {
+                if (modeB !== 0) {
+                    table.insert(operands, `${getField(code, 24, 8)}`);
+                    d %= 256;
+                }
+                if (modeC === 10) { //String constant
+                    comment = formatString(tostring(jitUtil.funck(func, -d - 1)));
+                } else if (modeC === 9) { //Number constant
+                    comment = tostring(jitUtil.funck(func, d));
+                } else if (modeC === 7 && d > 32767) { //Signed literal
+                    d -= 65536;
+                }
+                if (modeB !== 0 || modeC !== 0) {
+                    table.insert(operands, `${d}`);
+                }
+            }
+
+            table.insert(instructions, {
+                pc,
+                opcode: opcode ?? `BC_${op}`,
+                operands: table.concat(operands, " "),
+                line: jitUtil.funcinfo(func, pc).currentline,
+                comment
+            });
+            ++pc;
+        }
+        return instructions;
+    }
+
+    //Nested function prototypes are returned as constants with negative indices
+    function addJitLines(jitUtil: JitUtil, func: LuaFunction, lines: LuaTable<number, boolean | undefined>) {
+        let pc = 1;
+        while (true) {
+            const [code] = jitUtil.funcbc(func, pc);
+            if (code === undefined) {
+                break;
+            }
+            const line = jitUtil.funcinfo(func, pc).currentline;
+            if (line !== undefined) {
+                lines.set(line, true);
+            }
+            ++pc;
+        }
+        let index = -1;
+        while (true) {
+            const constant = jitUtil.funck(func, index);
+            if (constant === undefined) {
+                break;
+            } else if ((type(constant) as string) === "proto") {
+                addJitLines(jitUtil, constant as LuaFunction, lines);
+            }
+            --index;
+        }
+    }
+
+    function getDumpSignature(func: LuaFunction): [number, boolean] {
+        const prototype = readFunction(readHeader(string.dump(func)));
+        return [prototype.parameters, prototype.isVararg];
+    }
+
+    function getJitSignature(func: LuaFunction): [number, boolean] {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const [hasJitUtil, jitUtilModule] = pcall(require, "jit.util");
+        if (!hasJitUtil) {
+            return luaError("jit.util is not available");
+        }
+        const info = (jitUtilModule as JitUtil).funcinfo(func);
+        return [luaAssert(info.params), info.isvararg === true];
+    }
+
+    function getJitLines(func: LuaFunction) {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const [hasJitUtil, jitUtilModule] = pcall(require, "jit.util");
+        if (!hasJitUtil) {
+            return luaError("jit.util is not available");
+        }
+        const lines = new LuaTable<number, boolean | undefined>();
+        addJitLines(jitUtilModule as JitUtil, func, lines);
+        return lines;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    const isLuaJit = (_G as Record<string, unknown>).jit !== undefined;
+
+    const cache = setmetatable(new LuaTable<LuaFunction, LuaDebug.Instruction[] | undefined>(), {__mode: "k"});
+
+    //Decode a Lua function's instructions, or return an error message if that isn't possible
+    export function disassemble(
+        func: LuaFunction
+    ): LuaMultiReturn<[LuaDebug.Instruction[], undefined] | [undefined, string]> {
+        let instructions = cache.get(func);
+        if (!instructions) {
+            const decoder = isLuaJit ? disassembleJit : disassembleDump;
+            const [success, result] = pcall(decoder, func);
+            if (!success) {
+                return $multi(undefined, tostring(result));
+            }
+            instructions = result as LuaDebug.Instruction[];
+            cache.set(func, instructions);
+        }
+        return $multi(instructions, undefined);
+    }
+
+    //Find all lines with instructions on them in a function and the functions nested inside of it
+    export function getLines(
+        func: LuaFunction
+    ): LuaMultiReturn<[LuaTable<number, boolean | undefined>, undefined] | [undefined, string]> {
+        const decoder = isLuaJit ? getJitLines : getDumpLines;
+        const [success, result] = pcall(decoder, func);
+        if (!success) {
+            return $multi(undefined, tostring(result));
+        }
+        return $multi(result as LuaTable<number, boolean | undefined>, undefined);
+    }
+
+    //Find the number of parameters a function takes and whether it accepts varargs
+    export function getSignature(
+        func: LuaFunction
+    ): LuaMultiReturn<[number, boolean, undefined] | [undefined, undefined, string]> {
+        const decoder = isLuaJit ? getJitSignature : getDumpSignature;
+        const [success, result] = pcall(decoder, func);
+        if (!success) {
+            return $multi(undefined, undefined, tostring(result));
+        }
+        const [parameters, isVararg] = result as [number, boolean];
+        return $multi(parameters, isVararg, undefined);
+    }
+}
@@ -26,15 +26,26 @@ import {
     luaCoroutineCreate,
     luaCoroutineWrap,
     luaCoroutineResume,
+    luaThreadHooksSupported,
     luaDebugTraceback,
+    luaLoad,
+    luaLoadString,
     loadLuaString,
-    luaGetEnv
+    loadLuaFile,
+    luaGetEnv,
+    luaGetFunctionEnv,
+    luaIsNaN
 } from "./luafuncs";
 import {Path} from "./path";
 import {SourceMap} from "./sourcemap";
 import {Send} from "./send";
 import {Breakpoint} from "./breakpoint";
+import {Bytecode} from "./bytecode";
+import {Format} from "./format";
+import {Formatter} from "./formatter";
+import {Registry} from "./registry";
 import {Thread, mainThread, mainThreadName, isThread} from "./thread";
+import {DebugStream, Socket} from "./socket";
 
 export interface Var {
     val: unknown;
@@ -64,18 +75,24 @@ export namespace Debugger {
 
     const inputFileEnv: LuaDebug.InputFileEnv = "LOCAL_LUA_DEBUGGER_INPUT_FILE";
     const inputFilePath = os.getenv(inputFileEnv);
-    let inputFile: LuaFile;
-    if (inputFilePath && inputFilePath.length > 0) {
+    const sessionStream = Socket.getSessionStream();
+    let inputFile: DebugStream;
+    if (sessionStream) {
+        inputFile = sessionStream;
+    } else if (inputFilePath && inputFilePath.length > 0) {
         const [file, err] = io.open(inputFilePath, "r+");
         if (!file) {
             luaError(`Failed to open input file "${inputFilePath}": ${err}\n`);
         }
+        (file as LuaFile).setvbuf("no");
         inputFile = file as LuaFile;
-        inputFile.setvbuf("no");
     } else {
         inputFile = io.stdin;
     }
 
+    let isAttached = false;
+    let detach: { (): void };
+
     let skipNextBreak = false;
 
     const enum HookType {
@@ -110,6 +127,352 @@ export namespace Debugger {
         return -1;
     }
 
+    //Chunks loaded from strings are given ids, so the adapter can request their text. Each load gets its own id,
+    //since several chunks can be loaded with the same name.
+    interface Chunk {
+        source: string;
+        text?: string;
+        loaded?: boolean;
+    }
+
+    const chunks = new LuaTable<number, Chunk | undefined>();
+    const chunkOrder: number[] = [];
+    let nextChunkId = 1;
+
+    //The latest chunk with each source, and the chunk each loaded function came from
+    const chunkIds = new LuaTable<string, number | undefined>();
+    const chunkFunctionIds = setmetatable(new LuaTable<AnyNotNil, number | undefined>(), {__mode: "k"});
+
+    //Only the most recent chunks are kept, so programs which load generated code don't keep all of it
+    const maxChunks = 100;
+
+    function isStringChunk(source: string) {
+        const sourceType = source.sub(1, 1);
+        return sourceType !== "@" && sourceType !== "=";
+    }
+
+    function addChunk(source: string, text?: string) {
+        const latestId = chunkIds.get(source);
+        const latest = latestId !== undefined ? chunks.get(latestId) : undefined;
+        if (latestId !== undefined && latest !== undefined && latest.text === text) {
+            return latestId;
+        }
+
+        const id = nextChunkId;
+        ++nextChunkId;
+        chunks.set(id, {source, text});
+        chunkIds.set(source, id);
+        table.insert(chunkOrder, id);
+        if (chunkOrder.length > maxChunks) {
+            const oldId = luaAssert(table.remove(chunkOrder, 1));
+            const old = chunks.get(oldId);
+            chunks.set(oldId, undefined);
+            if (old !== undefined && chunkIds.get(old.source) === oldId) {
+                chunkIds.set(old.source, undefined);
+            }
+        }
+        return id;
+    }
+
+    //Functions other than a chunk's main function can only be matched to the latest chunk with their source
+    function getChunkId(source: string, func?: unknown) {
+        const funcId = func !== undefined ? chunkFunctionIds.get(func as AnyNotNil) : undefined;
+        return funcId ?? chunkIds.get(source) ?? addChunk(source);
+    }
+
+    //Without captured text, the source is the chunk itself if it was loaded without a name. Otherwise it's only a
+    //name, which can't be shown as code.
+    function getChunkText(id: number) {
+        const chunk = chunks.get(id);
+        if (chunk === undefined) {
+            return undefined;
+        } else if (chunk.text !== undefined) {
+            return chunk.text;
+        }
+        const [func] = loadLuaString(chunk.source);
+        return func ? chunk.source : undefined;
+    }
+
+    //Functions are given ids, so the adapter can request their disassembly
+    const functionIds = setmetatable(new LuaTable<Bytecode.LuaFunction, number | undefined>(), {__mode: "k"});
+    const functionsById = setmetatable(new LuaTable<number, Bytecode.LuaFunction | undefined>(), {__mode: "v"});
+    let nextFunctionId = 1;
+
+    function getFunctionId(func: Bytecode.LuaFunction) {
+        let id = functionIds.get(func);
+        if (id === undefined) {
+            id = nextFunctionId++;
+            functionIds.set(func, id);
+            functionsById.set(id, func);
+        }
+        return id;
+    }
+
+    function getFirstPc(func: Bytecode.LuaFunction, line: number) {
+        const [instructions] = Bytecode.disassemble(func);
+        if (instructions) {
+            for (const instruction of instructions) {
+                if (instruction.line === line) {
+                    return instruction.pc;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    //The debug library doesn't expose the current instruction, so it's assumed to be the first one on the current
+    //line, or the one after the last instruction stepped to on the same line
+    let lastInstruction: {
+        info: debug.FunctionInfo;
+        func: Bytecode.LuaFunction;
+        line: number;
+        pc: number;
+    } | undefined;
+
+    function updateLastInstruction(info: debug.FunctionInfo, steppedInstruction: boolean) {
+        const func = info.func;
+        if (!func || info.what === "C") {
+            lastInstruction = undefined;
+            return;
+        }
+        const line = getLine(info);
+        let pc: number | undefined;
+        if (steppedInstruction && lastInstruction && lastInstruction.func === func && lastInstruction.line === line) {
+            pc = lastInstruction.pc + 1;
+        } else {
+            pc = getFirstPc(func, line);
+        }
+        lastInstruction = pc !== undefined ? {info, func, line, pc} : undefined;
+    }
+
+    function getActiveLines(chunk: Bytecode.LuaFunction) {
+        const activeLines = new LuaTable<number, boolean | undefined>();
+        const info = debug.getinfo(chunk, "L");
+        if (info && info.activelines) {
+            for (const [line] of pairs(info.activelines)) {
+                activeLines.set(line, true);
+            }
+        }
+
+        //activelines only covers the chunk itself, so lines inside of functions defined in it come from its bytecode
+        const [nestedLines] = Bytecode.getLines(chunk);
+        if (nestedLines) {
+            for (const [line] of pairs(nestedLines)) {
+                activeLines.set(line, true);
+            }
+        }
+        return activeLines;
+    }
+
+    //Read the text of the chunk a function is in, from its file or from the string it was loaded from
+    function getSourceText(info: debug.FunctionInfo) {
+        const source = info.source;
+        if (!source) {
+            return undefined;
+
+        } else if (isStringChunk(source)) {
+            return getChunkText(getChunkId(source, info.func));
+
+        } else if (source.sub(1, 1) !== "@") {
+            return undefined;
+        }
+
+        const fileName = Path.format(source);
+        let [file] = io.open(fileName, "r");
+        for (const path of SourceMap.getScriptRoots()) {
+            if (file) {
+                break;
+            }
+            [file] = io.open(path + fileName, "r");
+        }
+        if (!file) {
+            return undefined;
+        }
+        const text = file.read("*a");
+        file.close();
+        return text;
+    }
+
+    //Blank out strings and comments, keeping lines and columns the same so calls can be located. A string's
+    //opening quote or bracket is kept, since a string can be a call's argument.
+    function blankStringsAndComments(text: string) {
+        const parts: string[] = [];
+        let position = 1;
+        while (true) {
+            const [start, , opener] = text.find("([\"'%[%-])", position);
+            if (start === undefined) {
+                table.insert(parts, text.sub(position));
+                break;
+            }
+
+            let kept = start;
+            let finish: number | undefined;
+            if (opener === "-" || opener === "[") {
+                const isComment = opener === "-" && text.sub(start + 1, start + 1) === "-";
+                const bracketStart = isComment ? start + 2 : start;
+                const [level] = text.match("^%[(=*)%[", bracketStart);
+                if (level !== undefined) {
+                    const [, closeFinish] = text.find(`]${level}]`, bracketStart, true);
+                    finish = closeFinish ?? text.length;
+                    kept = isComment ? start - 1 : start + level.length + 1;
+                } else if (isComment) {
+                    const [lineEnd] = text.find("[\r\n]", start);
+                    finish = lineEnd !== undefined ? lineEnd - 1 : text.length;
+                    kept = start - 1;
+                }
+            } else {
+                let scan = start + 1;
+                while (finish === undefined) {
+                    const [charStart, , char] = text.find(`([\\\r\n${opener}])`, scan);
+                    if (charStart === undefined) {
+                        finish = text.length;
+                    } else if (char === "\\") {
+                        scan = charStart + 2;
+                    } else {
+                        finish = char === opener ? charStart : charStart - 1;
+                    }
+                }
+            }
+
+            if (finish === undefined) {
+                table.insert(parts, text.sub(position, start));
+                position = start + 1;
+            } else {
+                table.insert(parts, text.sub(position, kept));
+                const [blank] = text.sub(kept + 1, finish).gsub("[^\r\n]", " ");
+                table.insert(parts, blank);
+                position = finish + 1;
+            }
+        }
+        return table.concat(parts);
+    }
+
+    const callKeywords: Record<string, boolean | undefined> = {
+        and: true,
+        elseif: true,
+        function: true,
+        if: true,
+        in: true,
+        local: true,
+        not: true,
+        or: true,
+        return: true,
+        until: true,
+        while: true
+    };
+
+    interface CallTarget {
+        path: string;
+        line: number;
+        column: number;
+        func?: unknown;
+    }
+
+    //Find the functions called on a line of code in the order they appear, including the rest of any call which
+    //continues onto later lines
+    function getCallTargets(text: string, line: number) {
+        const targets: CallTarget[] = [];
+        const found: Record<string, boolean | undefined> = {};
+        let depth = 0;
+        let i = 1;
+        for (const [code] of `${blankStringsAndComments(text)}\n`.gmatch("([^\r\n]*)\r?\n")) {
+            if (i > line && depth <= 0) {
+                break;
+            } else if (i >= line) {
+                let position = 1;
+                while (true) {
+                    const [start, finish, path, callChar] = code.find(
+                        "([%a_][%w_]*[%w_%.:]*)%s*([%(\"'{%[])",
+                        position
+                    );
+                    if (start === undefined || finish === undefined) {
+                        break;
+                    }
+                    const [isDefinition] = code.sub(1, start - 1).match("function%s+$");
+                    let isCall = callChar !== "[";
+                    if (!isCall) {
+                        const [longString] = code.match("^%[=*%[", finish);
+                        isCall = longString !== undefined;
+                    }
+                    if (typeof path === "string"
+                        && isCall
+                        && !isDefinition
+                        && !callKeywords[path]
+                        && !found[path]
+                    ) {
+                        found[path] = true;
+                        table.insert(targets, {path, line: i, column: start});
+                    }
+                    position = finish + 1;
+                }
+                const [, opened] = code.gsub("[%({]", "");
+                const [, closed] = code.gsub("[%)}]", "");
+                depth += opened - closed;
+            }
+            ++i;
+        }
+        return targets;
+    }
+
+    //Find function value by a path of names, starting at the global table
+    function resolveFunctionPath(path: string) {
+        let value: unknown = _G;
+        for (const [name] of path.gmatch("[^%.:]+")) {
+            if (type(value) !== "table") {
+                return undefined;
+            }
+            value = rawget(value as Record<string, unknown>, name);
+        }
+        return value;
+    }
+
+    //Called functions which couldn't be found are known by the name they're called with, which is the last part of
+    //their path
+    function isStepInTarget(info: debug.FunctionInfo, target: CallTarget) {
+        if (target.func !== undefined) {
+            return info.func === target.func;
+        }
+        const [targetName] = target.path.match("[^%.:]+$");
+        return info.name === targetName;
+    }
+
+    //Find where a function was defined, mapped to its original source if possible
+    function getFunctionDefinition(info: debug.FunctionInfo) {
+        if (!info.source || info.what === "C") {
+            return undefined;
+        }
+        const definition: LuaDebug.FunctionDefinition = {
+            source: Path.format(info.source),
+            line: info.linedefined ?? 0,
+            lastLine: info.lastlinedefined ?? 0
+        };
+        if (isStringChunk(info.source)) {
+            definition.source = info.short_src ?? definition.source;
+            definition.sourceId = getChunkId(info.source, info.func);
+        } else {
+            const sourceMap = SourceMap.get(definition.source);
+            const lineMapping = sourceMap && sourceMap.mappings[definition.line];
+            if (sourceMap && lineMapping) {
+                definition.mappedLocation = {
+                    source: luaAssert(sourceMap.sources[lineMapping.sourceIndex]),
+                    line: lineMapping.sourceLine,
+                    column: lineMapping.sourceColumn
+                };
+            }
+        }
+        return definition;
+    }
+
+    function sendFunctionProps(func: Bytecode.LuaFunction) {
+        const info = luaAssert(debug.getinfo(func, "Suf"));
+        let parameters = info.nparams;
+        let isVararg = info.isvararg;
+        if (parameters === undefined && info.what !== "C") {
+            [parameters, isVararg] = Bytecode.getSignature(func);
+        }
+        Send.functionProps(func, getFunctionDefinition(info), parameters, isVararg);
+    }
+
     function backtrace(stack: debug.FunctionInfo[], frameIndex: number) {
         const frames: LuaDebug.Frame[] = [];
         for (const i of $range(0, stack.length - 1)) {
@@ -118,7 +481,10 @@ export namespace Debugger {
                 source: info.source && Path.format(info.source) || "?",
                 line: getLine(info)
             };
-            if (info.source) {
+            if (info.source && isStringChunk(info.source)) {
+                frame.source = info.short_src ?? frame.source;
+                frame.sourceId = getChunkId(info.source, info.func);
+            } else if (info.source) {
                 const sourceMap = SourceMap.get(frame.source);
                 if (sourceMap) {
                     const lineMapping = sourceMap.mappings[frame.line];
@@ -136,6 +502,12 @@ export namespace Debugger {
             } else if (info.func) {
                 frame.func = tostring(info.func);
             }
+            if (info.func && info.what !== "C") {
+                frame.funcId = getFunctionId(info.func);
+                frame.pc = (lastInstruction && lastInstruction.info === info)
+                    ? lastInstruction.pc
+                    : getFirstPc(info.func, frame.line);
+            }
             if (i === frameIndex) {
                 frame.active = true;
             }
@@ -279,6 +651,44 @@ export namespace Debugger {
         return globs;
     }
 
+    //Look up a field without calling metamethods, following __index tables like the inherited rows do
+    function getFieldRaw(value: unknown, key: string) {
+        const visited = new LuaTable<AnyNotNil, boolean | undefined>();
+        while (value !== undefined && visited.get(value as AnyNotNil) === undefined) {
+            visited.set(value as AnyNotNil, true);
+            if (type(value) === "table") {
+                const field = rawget(value as Record<string, unknown>, key);
+                if (field !== undefined) {
+                    return field;
+                }
+            }
+            const meta = debug.getmetatable(value) as Record<string, unknown> | undefined;
+            value = (meta !== undefined && type(meta.__index) === "table") ? meta.__index : undefined;
+        }
+        return undefined;
+    }
+
+    //Find the function a call target refers to in a frame, starting at its locals, upvalues and then globals
+    function getCallTargetFunction(target: CallTarget, level: number, info: debug.FunctionInfo, thread?: Thread) {
+        if (thread === undefined) {
+            ++level;
+        }
+        let value: unknown;
+        let first = true;
+        for (const [name] of target.path.gmatch("[^%.:]+")) {
+            if (first) {
+                first = false;
+                const variable = getLocals(level, thread).vars[name]
+                    ?? getUpvalues(info).vars[name]
+                    ?? getGlobals(level, thread)[name];
+                value = variable !== undefined ? variable.val : undefined;
+            } else {
+                value = getFieldRaw(value, name);
+            }
+        }
+        return type(value) === "function" ? value : undefined;
+    }
+
     function mapVarNames(vars: Vars, sourceMap: SourceMap | undefined) {
         if (!sourceMap) {
             return;
@@ -364,7 +774,124 @@ export namespace Debugger {
         return mappedExpression;
     }
 
+    const pauseFileEnv: LuaDebug.PauseFileEnv = "LOCAL_LUA_DEBUGGER_PAUSE_FILE";
+    const pauseFilePath = os.getenv(pauseFileEnv);
+    const pauseCheckInterval = 100000;
+
+    //Checking for pause requests needs a hook while running, so it's only done once the debug adapter asks for it
+    let pauseWhileRunning = false;
+
+    let inDebugBreak = false;
+
+    //Commands which arrived while polling for a pause request, in the order they were received
+    const polledInputs: string[] = [];
+
+    function getInput(): string | undefined {
+        //A pause requested while already stopped only applies to the evaluation it was meant to cancel
+        if (pauseFilePath && pauseFilePath.length > 0) {
+            os.remove(pauseFilePath);
+        }
+        if (polledInputs.length > 0) {
+            return table.remove(polledInputs, 1);
+        }
+        const inp = inputFile.read("*l");
+        return inp as string | undefined;
+    }
+
+    function canPause() {
+        return inputFile.poll !== undefined || (pauseFilePath !== undefined && pauseFilePath.length > 0);
+    }
+
+    let inputClosed = false;
+
+    //Check for a pause request from the debug adapter without blocking. This is also where an adapter detaching or
+    //going away is noticed while the program is running.
+    function checkForPause() {
+        if (inputFile.poll) {
+            if (inputClosed) {
+                return false;
+            }
+            let inp = inputFile.poll();
+            if (inp === false) {
+                inputClosed = true;
+                inp = isAttached ? "detach" : "quit";
+            }
+            if (inp === "pause") {
+                return true;
+            } else if (inp === "detach" && !inDebugBreak) {
+                detach();
+            } else if (inp !== undefined) {
+                table.insert(polledInputs, inp);
+                return inp === "detach" || inp === "quit";
+            }
+
+        } else if (pauseFilePath && pauseFilePath.length > 0) {
+            const [pauseFile] = io.open(pauseFilePath);
+            if (pauseFile) {
+                pauseFile.close();
+                os.remove(pauseFilePath);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    //Evaluations are run with a count hook which aborts them once they pass this many instructions
+    const maxEvaluationInstructions = 10000000;
+
+    //Run a function in its own coroutine, since hooks don't fire on a thread which is already inside one.
+    //While stopped, a pause request from the debug adapter cancels the evaluation.
+    function runEvaluation(
+        func: (this: void, ...args: unknown[]) => unknown,
+        varargs: unknown[]
+    ): LuaMultiReturn<[true, ...unknown[]] | [false, unknown]> {
+        if (!luaThreadHooksSupported) {
+            return pcall(func, ...unpack(varargs));
+        }
+        const evaluation = luaCoroutineCreate(func);
+        let instructions = 0;
+        debug.sethook(
+            evaluation,
+            () => {
+                instructions += pauseCheckInterval;
+                if (instructions >= maxEvaluationInstructions) {
+                    luaError(`evaluation exceeded ${maxEvaluationInstructions} instructions`, 0);
+                } else if (inDebugBreak && canPause() && checkForPause()) {
+                    luaError("evaluation cancelled", 0);
+                }
+            },
+            "",
+            pauseCheckInterval
+        );
+        const results = luaCoroutineResume(evaluation, ...unpack(varargs));
+
+        //Lua 5.1 keeps hooks in a table which isn't weak, so they're removed once the evaluation is done
+        debug.sethook(evaluation);
+        if (results[0] && coroutine.status(evaluation) !== "dead") {
+            return $multi(false, "attempt to yield from an evaluation");
+        }
+        return results;
+    }
+
+    Formatter.setRunner(runEvaluation);
+
     const metatableAccessor: LuaDebug.MetatableAccessor = "lldbg_getmetatable";
+    const upvalueAccessor: LuaDebug.UpvalueAccessor = "lldbg_getupvalue";
+    const environmentAccessor: LuaDebug.EnvironmentAccessor = "lldbg_getfenv";
+    const handleAccessor: LuaDebug.HandleAccessor = "lldbg_handle";
+
+    function getUpvalue(func: Bytecode.LuaFunction, index: number) {
+        const [_, val] = debug.getupvalue(func, index);
+        return val;
+    }
+
+    function getHandleValue(id: number) {
+        const val = Registry.get(id);
+        if (val === undefined) {
+            luaError(`value ${id} is no longer available`);
+        }
+        return val;
+    }
 
     function execute(
         statement: string,
@@ -389,6 +916,12 @@ export namespace Debugger {
                 __index(this: unknown, name: string) {
                     if (name === metatableAccessor) {
                         return getmetatable;
+                    } else if (name === upvalueAccessor) {
+                        return getUpvalue;
+                    } else if (name === environmentAccessor) {
+                        return luaGetFunctionEnv;
+                    } else if (name === handleAccessor) {
+                        return getHandleValue;
                     }
                     const variable = locs.vars[name] ?? ups.vars[name];
                     if (variable !== undefined) {
@@ -421,7 +954,7 @@ export namespace Debugger {
             }
         }
 
-        const results = pcall<unknown[], unknown[]>(func, ...unpack(varargs));
+        const results = runEvaluation(func, varargs);
         if (results[0]) {
             for (const [_, loc] of pairs(locs.vars)) {
                 if (thread) {
@@ -435,12 +968,252 @@ export namespace Debugger {
             }
             return $multi(true, ...unpack(results, 2));
         }
-        return $multi(false, results[1]);
+        return $multi(false, results[1] as string);
     }
 
-    function getInput(): string | undefined {
-        const inp = inputFile.read("*l");
-        return inp;
+    const sideEffectsError = "expression can't be evaluated without side effects";
+
+    function parseKeyLiteral(literal: string) {
+        const [doubleQuoted] = literal.match('^%s*"([^"\\]*)"%s*$');
+        const [singleQuoted] = literal.match("^%s*'([^'\\]*)'%s*$");
+        const [word] = literal.match("^%s*(%a+)%s*$");
+        if (doubleQuoted !== undefined) {
+            return doubleQuoted;
+        } else if (singleQuoted !== undefined) {
+            return singleQuoted;
+        } else if (word === "true" || word === "false") {
+            return word === "true";
+        }
+        return tonumber(literal);
+    }
+
+    //Evaluate an expression made only of names and field accesses, using raw lookups so no metamethods are called
+    function peek(
+        expression: string,
+        level: number,
+        info: debug.FunctionInfo,
+        thread?: Thread
+    ): LuaMultiReturn<[true, unknown] | [false, string]> {
+        if (thread === mainThreadName) {
+            return $multi(false, "unable to access main thread while running in a coroutine");
+        }
+
+        if (!thread) {
+            ++level;
+        }
+
+        const [name, fields] = expression.match("^%s*([%a_][%w_]*)(.*)$");
+        if (name === undefined || fields === undefined) {
+            return $multi(false, sideEffectsError);
+        }
+
+        let value: unknown;
+        const locs = getLocals(level, thread);
+        const ups = getUpvalues(info);
+        const variable = locs.vars[name] ?? ups.vars[name];
+        if (variable !== undefined) {
+            value = variable.val;
+        } else {
+            value = rawget(luaGetEnv(level, thread) ?? _G, name);
+        }
+
+        let remaining = fields;
+        while (remaining.match("^%s*$")[0] === undefined) {
+            let key: unknown;
+            const [field, afterField] = remaining.match("^%s*[%.:]%s*([%a_][%w_]*)(.*)$");
+            const [index, afterIndex] = remaining.match("^%s*(%b[])(.*)$");
+            if (field !== undefined && afterField !== undefined) {
+                key = field;
+                remaining = afterField;
+            } else if (index !== undefined && afterIndex !== undefined) {
+                key = parseKeyLiteral(index.sub(2, -2));
+                remaining = afterIndex;
+            }
+            if (key === undefined) {
+                return $multi(false, sideEffectsError);
+            } else if (type(value) !== "table") {
+                return $multi(false, `attempt to index a ${type(value)} value without metamethods`);
+            }
+            value = rawget(value as AnyTable, key as AnyNotNil);
+        }
+        return $multi(true, value);
+    }
+
+    function addCompletions(
+        completions: LuaDebug.Completion[],
+        added: LuaTable<string, boolean | undefined>,
+        vars: Vars,
+        kind: LuaDebug.Completion["kind"]
+    ) {
+        for (const [name, v] of pairs(vars)) {
+            if (!added.get(name) && isValidIdentifier(name)) {
+                added.set(name, true);
+                table.insert(completions, {name, kind, type: v.type});
+            }
+        }
+    }
+
+    //Collect string keys of a table, including those found through __index
+    function getFieldCompletions(tbl: Record<string, unknown>) {
+        const completions: LuaDebug.Completion[] = [];
+        const added = new LuaTable<string, boolean | undefined>();
+        const visited = new LuaTable<AnyNotNil, boolean | undefined>();
+        let current: Record<string, unknown> | undefined = tbl;
+        while (current !== undefined && !visited.get(current)) {
+            visited.set(current, true);
+            const fields: Vars = {};
+            for (const [key, val] of pairs(current)) {
+                if (typeof key === "string") {
+                    fields[key] = {val, type: type(val)};
+                }
+            }
+            addCompletions(completions, added, fields, "field");
+
+            const meta = debug.getmetatable(current) as Record<string, unknown> | undefined;
+            current = (meta !== undefined && type(meta.__index) === "table")
+                ? meta.__index as Record<string, unknown>
+                : undefined;
+        }
+        return completions;
+    }
+
+    //Hit conditions take the form ">= N", "== N", "% N" or "N" (same as "== N")
+    function parseHitCondition(hitCondition: string): LuaMultiReturn<[string, number] | [undefined, undefined]> {
+        const [operator, countStr] = hitCondition.match("^%s*([>=%%]*)%s*(%d+)%s*$");
+        if (operator === undefined || countStr === undefined) {
+            return $multi(undefined, undefined);
+        }
+        const count = luaAssert(tonumber(countStr));
+        if (operator === "" || operator === "==" || operator === ">=" || (operator === "%" && count > 0)) {
+            return $multi(operator, count);
+        }
+        return $multi(undefined, undefined);
+    }
+
+    function checkHitCondition(hitCondition: string, hitCount: number) {
+        const [operator, count] = parseHitCondition(hitCondition);
+        if (operator === undefined || count === undefined) {
+            return false;
+        } else if (operator === ">=") {
+            return hitCount >= count;
+        } else if (operator === "%") {
+            return hitCount % count === 0;
+        } else {
+            return hitCount === count;
+        }
+    }
+
+    function comparePaths(a: string, b: string) {
+        let aLen = a.length;
+        const bLen = b.length;
+        if (aLen === bLen) {
+            return a === b;
+        }
+        //Ensure 'a' is the shorter path
+        if (bLen < aLen) {
+            [a, aLen, b] = [b, bLen, a];
+        }
+        if (a !== b.sub(-aLen)) {
+            return false;
+        }
+        //If shorter string doesn't start with '/', make sure the longer one has '/' right before the substring
+        //so we don't match a partial filename.
+        if (a.sub(1, 1) === Path.separator) {
+            return true;
+        }
+        const bSep = -(aLen + 1);
+        return b.sub(bSep, bSep) === Path.separator;
+    }
+
+    //Report each chunk the first time it's seen, so the adapter can list loaded sources
+    const loadedSources = new LuaTable<string, boolean | undefined>();
+
+    //Script files which have been loaded, used to resolve breakpoints to lines with code on them
+    const loadedFiles: string[] = [];
+    const loadedFileLines = new LuaTable<string, LuaTable<number, boolean | undefined> | undefined>();
+
+    function getLoadedFileLines(file: string) {
+        for (const loadedFile of loadedFiles) {
+            if (comparePaths(loadedFile, file)) {
+                let lines = loadedFileLines.get(loadedFile);
+                if (!lines) {
+                    const [chunk] = loadLuaFile(loadedFile);
+                    if (!chunk) {
+                        return undefined;
+                    }
+                    lines = getActiveLines(chunk);
+                    loadedFileLines.set(loadedFile, lines);
+                }
+                return lines;
+            }
+        }
+    }
+
+    //Find the lines in a file which have code on them, using source maps to get lines in the original source.
+    //Loaded files are matched the same way breakpoints are, so paths which differ from the editor's still work.
+    function getFileLines(file: string): LuaMultiReturn<[number[], undefined] | [undefined, string]> {
+        file = Path.format(file);
+        const [scriptFile, sourceMap] = SourceMap.find(file);
+        let activeLines = getLoadedFileLines(scriptFile ?? file);
+        if (!activeLines) {
+            const [chunk, err] = loadLuaFile(scriptFile ?? file);
+            if (!chunk) {
+                return $multi(undefined, tostring(err));
+            }
+            activeLines = getActiveLines(chunk);
+        }
+
+        const lines: number[] = [];
+        const added = new LuaTable<number, boolean | undefined>();
+        for (const [line] of pairs(activeLines)) {
+            let fileLine: number | undefined = line;
+            if (sourceMap) {
+                const mapping = sourceMap.mappings[line];
+                fileLine = (mapping && sourceMap.sources[mapping.sourceIndex] === file)
+                    ? mapping.sourceLine
+                    : undefined;
+            }
+            if (fileLine !== undefined && fileLine > 0 && !added.get(fileLine)) {
+                added.set(fileLine, true);
+                table.insert(lines, fileLine);
+            }
+        }
+        table.sort(lines);
+        return $multi(lines, undefined);
+    }
+
+    function registerSource(info: debug.FunctionInfo) {
+        const source = info.source;
+        if (!source) {
+            return;
+
+        } else if (isStringChunk(source)) {
+            const id = getChunkId(source, info.func);
+            const chunk = luaAssert(chunks.get(id));
+            if (!chunk.loaded) {
+                chunk.loaded = true;
+                Send.loadedSource(info.short_src ?? source, undefined, undefined, id);
+            }
+            return;
+
+        } else if (loadedSources.get(source)) {
+            return;
+        }
+        loadedSources.set(source, true);
+
+        if (source.sub(1, 1) === "@") {
+            const file = Path.format(source);
+            if (file.sub(-debuggerName.length) === debuggerName) {
+                return;
+            }
+            const sourceMap = SourceMap.get(file);
+            Send.loadedSource(file, file, sourceMap && sourceMap.sources);
+
+            table.insert(loadedFiles, file);
+            for (const breakpoint of Breakpoint.resolvePending(getLoadedFileLines)) {
+                Send.breakpointUpdate(breakpoint);
+            }
+        }
     }
 
     function getStack(threadOrOffset: LuaThread | number) {
@@ -466,6 +1239,7 @@ export namespace Debugger {
             if (!stackInfo) {
                 break;
             }
+            registerSource(stackInfo);
             table.insert(stack, stackInfo);
             ++i;
         }
@@ -474,13 +1248,28 @@ export namespace Debugger {
 
     let breakAtDepth = -1;
     let breakInThread: Thread | undefined;
+    let stepInstructions = false;
+    let skipLineEvent = false;
+    let stepInTarget: CallTarget | undefined;
+    let stepInThread: Thread | undefined;
+    let stepInDepth = -1;
     let updateHook: { (): void };
     let ignorePatterns: string[] | undefined;
-    let inDebugBreak = false;
+    let pendingBreak: [string, LuaDebug.DebugBreak["breakType"]] | undefined;
+
+    //Break at the next executed line, reporting the given reason instead of a step
+    function setPendingBreak(message: string, breakType: LuaDebug.DebugBreak["breakType"]) {
+        pendingBreak = [message, breakType];
+        breakAtDepth = math.huge;
+        breakInThread = undefined;
+        stepInTarget = undefined;
+        updateHook();
+    }
 
     function debugBreak(activeThread: Thread, stackOffset: number, activeLine?: number) {
         assert(!inDebugBreak);
         inDebugBreak = true;
+        pendingBreak = undefined;
         ++stackOffset;
         const activeStack = getStack(stackOffset);
         if (activeLine && activeStack.length > 0) {
@@ -488,8 +1277,17 @@ export namespace Debugger {
         }
         const activeThreadFrameOffset = stackOffset;
 
+        const steppedInstruction = stepInstructions;
+        if (activeStack.length > 0) {
+            updateLastInstruction(luaAssert(activeStack[0]), steppedInstruction);
+        }
+
         breakAtDepth = -1;
         breakInThread = undefined;
+        stepInstructions = false;
+        stepInTarget = undefined;
+        stepInThread = undefined;
+        Registry.clear();
         let frameOffset = activeThreadFrameOffset;
         let frame = 0;
         let currentThread = activeThread;
@@ -497,47 +1295,115 @@ export namespace Debugger {
         let info = luaAssert(currentStack[frame]);
         let source = Path.format(luaAssert(info.source));
         let sourceMap = SourceMap.get(source);
+        let callTargets: CallTarget[] = [];
+        let callTargetsThread = activeThread;
+        let callTargetsDepth = activeStack.length;
         while (true) {
-            const inp = getInput();
-            if (!inp || inp === "quit") {
+            let inp = getInput();
+
+            //Commands can be given a format for the values they show, like "eval:x" or "props:count=20"
+            let specifiers: string | undefined;
+            if (inp !== undefined) {
+                const [command, commandSpecifiers, args] = inp.match("^(%a+):([%w=,]+)(.*)$");
+                if (command !== undefined) {
+                    inp = `${command}${args}`;
+                    specifiers = commandSpecifiers;
+                }
+            }
+            Send.setValueFormat(specifiers);
+
+            if ((!inp && isAttached) || inp === "detach") {
+                //The hook was removed by detaching, so it mustn't be set again on the way out
+                detach();
+                inDebugBreak = false;
+                return true;
+
+            } else if (!inp || inp === "quit") {
                 os.exit(0);
 
             } else if (inp === "cont" || inp === "continue") {
                 break;
 
             } else if (inp === "autocont" || inp === "autocontinue") {
+                Registry.clear();
                 updateHook();
                 inDebugBreak = false;
                 return false; //Check breakpoints before resuming
 
+            } else if (inp === "pause") {
+                //Pause request arrived after already breaking, so there's nothing to do
+
+            } else if (inp === "pause on" || inp === "pause off") {
+                pauseWhileRunning = inp === "pause on";
+                Send.result(pauseWhileRunning && canPause());
+
             } else if (inp === "help") {
                 Send.help(
                     ["help", "show available commands"],
                     ["cont|continue", "continue execution"],
                     ["autocont|autocontinue", "continue execution if not stopped at a breakpoint"],
                     ["quit", "stop program and debugger"],
+                    ["detach", "stop debugger and continue program"],
+                    ["pause on|off", "check for pause requests while running (adds a hook while idle)"],
                     ["step", "step to next line"],
                     ["stepin", "step in to current line"],
+                    ["stepin N", "step in to a function listed by targets"],
+                    ["targets", "show functions called on current frame's line"],
                     ["stepout", "step out to calling line"],
+                    ["stepi", "step to next instruction"],
+                    ["nexti", "step to next instruction, stepping over calls"],
                     ["stack", "show current stack trace"],
                     ["frame n", "set active stack frame"],
                     ["locals", "show all local variables available in current context"],
                     ["ups", "show all upvalue variables available in the current context"],
-                    ["globals", "show all global variables in current environment"],
+                    ["globals [start] [count]", "show global variables in current environment, paged by name"],
+                    ["complete [expression]", "list names in current context, or fields of a table"],
+                    ["chunk id", "show the text of a chunk loaded from a string"],
+                    ["disasm id", "show the bytecode instructions of a function by id"],
+                    ["lines file", "show lines in a file which breakpoints can be set on"],
                     ["props indexed [start] [count]", "show array elements of a table"],
-                    ["props named|all", "show properties of a table"],
+                    ["props named|all [start] [count]", "show properties of a table, paged by name"],
+                    ["props inherited", "show fields a table inherits through __index tables"],
+                    ["func expression", "show upvalues, environment and definition of a function"],
+                    ["copy lua|json depth fields expression", "write a value as a Lua table constructor or JSON"],
                     ["eval", "evaluate an expression in the current context"],
                     ["exec", "execute a statement in the current context"],
+                    ["peek expression", "evaluate names and field accesses without calling metamethods"],
                     ["break set file.ext:n [cond]", "set a breakpoint"],
                     ["break del|delete file.ext:n", "delete a breakpoint"],
                     ["break en|enable file.ext:n", "enable a breakpoint"],
                     ["break dis|disable file.ext:n", "disable a breakpoint"],
+                    ["break log file.ext:n msg", "log message instead of breaking, with {expr} evaluated"],
+                    ["break hit file.ext:n [>=|==|%]count", "only break when hit count matches"],
                     ["break list", "show all breakpoints"],
                     ["break clear", "delete all breakpoints"],
+                    ["funcbreak set name [cond]", "set a breakpoint on a function by name or path (ex. foo.bar)"],
+                    ["funcbreak list", "show all function breakpoints"],
+                    ["funcbreak clear", "delete all function breakpoints"],
+                    ["databreak info table, key", "get an id for a table field to set a data breakpoint on"],
+                    ["databreak set id [cond]", "break when a table field's value changes"],
+                    ["databreak list", "show all data breakpoints"],
+                    ["databreak clear", "delete all data breakpoints"],
+                    [
+                        "exception set kind [pattern]",
+                        "break on errors of a kind (runtime|error|assert|coroutine), optionally matching a pattern"
+                    ],
+                    ["exception list", "show all exception filters"],
+                    ["exception clear", "stop breaking on errors"],
                     ["threads", "list active thread ids"],
                     ["thread n", "set current thread by id"],
                     ["script", "add known script file (pre-caches sourcemap for breakpoint)"],
-                    ["ignore", "add pattern for files to ignore when stepping"]
+                    ["ignore", "add pattern for files to ignore when stepping"],
+                    [
+                        "format set metatable|class|predicate match\tdisplay[\tchildren]",
+                        "show matching values using expressions of 'value', separated by tabs"
+                    ],
+                    ["format clear", "delete all value formatters"],
+                    [
+                        "command:specifiers ...",
+                        "show values as hex (x), binary (b), with precision (17g), without formatters (raw)"
+                            + " or limited to count fields (count=n), separated by commas"
+                    ]
                 );
 
             } else if (inp === "threads") {
@@ -597,62 +1463,300 @@ export namespace Debugger {
                 breakInThread = undefined;
                 break;
 
+            } else if (inp.sub(1, 7) === "stepin ") {
+                const [targetIndex] = inp.match("^stepin%s+(%d+)$");
+                const target = targetIndex !== undefined
+                    ? callTargets[luaAssert(tonumber(targetIndex)) - 1]
+                    : undefined;
+                if (target) {
+                    breakAtDepth = math.huge;
+                    breakInThread = undefined;
+                    stepInTarget = target;
+                    stepInThread = callTargetsThread;
+                    stepInDepth = callTargetsDepth;
+                    break;
+                }
+                Send.error("Bad target");
+
+            } else if (inp === "targets") {
+                //Targets are found in the selected frame, in the Lua code that's running
+                const text = getSourceText(info);
+                callTargets = text !== undefined ? getCallTargets(text, getLine(info)) : [];
+                callTargetsThread = currentThread;
+                callTargetsDepth = currentStack.length - frame;
+                const targets: LuaDebug.StepInTarget[] = [];
+                for (const target of callTargets) {
+                    target.func = getCallTargetFunction(
+                        target,
+                        frame + frameOffset,
+                        info,
+                        currentThread !== activeThread ? currentThread : undefined
+                    );
+                    if (sourceMap) {
+                        const sourceNames = sourceMap.sourceNames;
+                        const [name] = target.path.gsub("[^%.:]+", luaName => sourceNames[luaName] ?? luaName);
+                        table.insert(targets, {name});
+                    } else {
+                        table.insert(targets, {name: target.path, line: target.line, column: target.column});
+                    }
+                }
+                Send.stepInTargets(targets);
+
             } else if (inp === "stepout") {
                 breakAtDepth = activeStack.length - 1;
                 breakInThread = activeThread;
                 break;
 
-            } else if (inp === "stack") {
-                backtrace(currentStack, frame);
+            } else if (inp === "stepi") {
+                breakAtDepth = math.huge;
+                breakInThread = undefined;
+                stepInstructions = true;
+                break;
+
+            } else if (inp === "nexti") {
+                breakAtDepth = activeStack.length;
+                breakInThread = activeThread;
+                stepInstructions = true;
+                break;
+
+            } else if (inp === "stack") {
+                backtrace(currentStack, frame);
+
+            } else if (inp.sub(1, 5) === "frame") {
+                const [newFrameStr] = inp.match("^frame%s+(%d+)$");
+                if (newFrameStr !== undefined) {
+                    const newFrame = luaAssert(tonumber(newFrameStr));
+                    if (newFrame > 0 && newFrame <= currentStack.length) {
+                        frame = newFrame - 1;
+                        info = luaAssert(currentStack[frame]);
+                        source = Path.format(luaAssert(info.source));
+                        sourceMap = SourceMap.get(source);
+                        backtrace(currentStack, frame);
+                    } else {
+                        Send.error("Bad frame");
+                    }
+                } else {
+                    Send.error("Bad frame");
+                }
+
+            } else if (inp === "locals") {
+                const locs = getLocals(frame + frameOffset, currentThread !== activeThread ? currentThread : undefined);
+                mapVarNames(locs.vars, sourceMap);
+                if (locs.varargs) {
+                    const varArgVals: unknown[] = [];
+                    for (const vararg of locs.varargs) {
+                        table.insert(varArgVals, vararg.val);
+                    }
+                    locs.vars["..."] = {val: varArgVals, index: -1, type: "table"};
+                }
+                Send.vars(locs.vars);
+
+            } else if (inp === "ups") {
+                const ups = getUpvalues(info);
+                mapVarNames(ups.vars, sourceMap);
+                Send.vars(ups.vars);
+
+            } else if (inp.sub(1, 7) === "globals") {
+                const [first, count] = inp.match("^globals%s*(%d*)%s*(%d*)$");
+                if (first === undefined) {
+                    Send.error("Bad page");
+                } else {
+                    const globs = getGlobals(
+                        frame + frameOffset,
+                        currentThread !== activeThread ? currentThread : undefined
+                    );
+                    mapVarNames(globs, sourceMap);
+                    Send.vars(globs, tonumber(first), tonumber(count));
+                }
+
+            } else if (inp.sub(1, 5) === "chunk") {
+                const [chunkIdStr] = inp.match("^chunk%s+(%d+)$");
+                const text = chunkIdStr !== undefined ? getChunkText(luaAssert(tonumber(chunkIdStr))) : undefined;
+                if (text !== undefined) {
+                    Send.chunk(text);
+                } else {
+                    Send.error("Chunk text is not available");
+                }
+
+            } else if (inp.sub(1, 5) === "lines") {
+                const [file] = inp.match("^lines%s+(.+)$");
+                if (!file) {
+                    Send.error("Bad file");
+                } else {
+                    const [lines, err] = getFileLines(file);
+                    if (lines) {
+                        Send.activeLines(lines);
+                    } else {
+                        Send.error(tostring(err));
+                    }
+                }
+
+            } else if (inp.sub(1, 6) === "disasm") {
+                const [funcIdStr] = inp.match("^disasm%s+(%d+)$");
+                const funcId = funcIdStr !== undefined ? tonumber(funcIdStr) : undefined;
+                const func = funcId !== undefined ? functionsById.get(funcId) : undefined;
+                if (func) {
+                    const [instructions, err] = Bytecode.disassemble(func);
+                    const funcSource = luaAssert(debug.getinfo(func, "S")).source ?? "?";
+                    if (!instructions) {
+                        Send.error(`Unable to disassemble function: ${err}`);
+                    } else if (isStringChunk(funcSource)) {
+                        Send.disassembly(
+                            luaAssert(debug.getinfo(func, "S")).short_src ?? "?",
+                            getChunkId(funcSource, func),
+                            instructions
+                        );
+                    } else {
+                        Send.disassembly(Path.format(funcSource), undefined, instructions);
+                    }
+                } else {
+                    Send.error("Bad function id");
+                }
+
+            } else if (inp.sub(1, 8) === "complete") {
+                const [expression] = inp.match("^complete%s+(.+)$");
+                const thread = currentThread !== activeThread ? currentThread : undefined;
+                if (!expression) {
+                    const completions: LuaDebug.Completion[] = [];
+                    const added = new LuaTable<string, boolean | undefined>();
+                    const locs = getLocals(frame + frameOffset, thread);
+                    mapVarNames(locs.vars, sourceMap);
+                    addCompletions(completions, added, locs.vars, "local");
+                    const ups = getUpvalues(info);
+                    mapVarNames(ups.vars, sourceMap);
+                    addCompletions(completions, added, ups.vars, "upvalue");
+                    const globs = getGlobals(frame + frameOffset, thread);
+                    mapVarNames(globs, sourceMap);
+                    addCompletions(completions, added, globs, "global");
+                    Send.completions(completions);
+
+                } else {
+                    const mappedExpression = mapExpressionNames(expression, sourceMap);
+                    const [s, r] = execute(`return ${mappedExpression}`, frame + frameOffset, info, thread);
+                    if (s) {
+                        if (type(r) === "table") {
+                            Send.completions(getFieldCompletions(r as Record<string, unknown>));
+                        } else {
+                            Send.error(`Expression "${mappedExpression}" is not a table`);
+                        }
+                    } else {
+                        Send.error(r as string);
+                    }
+                }
+
+            } else if (inp.sub(1, 9) === "funcbreak") {
+                const [cmd] = inp.match("^funcbreak%s+([a-z]+)");
+                if (cmd === "set") {
+                    const [name, condition] = inp.match("^funcbreak%s+set%s+([^%s]+)%s*(.*)$");
+                    if (name !== undefined) {
+                        Breakpoint.addFunction(name, condition !== "" ? condition : undefined);
+                        updateHook();
+                        Send.functionBreakpoints(Breakpoint.getFunctions());
+                    } else {
+                        Send.error("Bad function breakpoint");
+                    }
+
+                } else if (cmd === "clear") {
+                    Breakpoint.clearFunctions();
+                    updateHook();
+                    Send.functionBreakpoints(Breakpoint.getFunctions());
+
+                } else if (cmd === "list") {
+                    Send.functionBreakpoints(Breakpoint.getFunctions());
+
+                } else {
+                    Send.error("Bad function breakpoint command");
+                }
+
+            } else if (inp.sub(1, 9) === "databreak") {
+                const [cmd] = inp.match("^databreak%s+([a-z]+)");
+                if (cmd === "info") {
+                    const [expression] = inp.match("^databreak%s+info%s+(.+)$");
+                    if (!expression) {
+                        Send.error("Bad expression");
 
-            } else if (inp.sub(1, 5) === "frame") {
-                const [newFrameStr] = inp.match("^frame%s+(%d+)$");
-                if (newFrameStr !== undefined) {
-                    const newFrame = luaAssert(tonumber(newFrameStr));
-                    if (newFrame > 0 && newFrame <= currentStack.length) {
-                        frame = newFrame - 1;
-                        info = luaAssert(currentStack[frame]);
-                        source = Path.format(luaAssert(info.source));
-                        sourceMap = SourceMap.get(source);
-                        backtrace(currentStack, frame);
                     } else {
-                        Send.error("Bad frame");
+                        const mappedExpression = mapExpressionNames(expression, sourceMap);
+                        const results = execute(
+                            `return ${mappedExpression}`,
+                            frame + frameOffset,
+                            info,
+                            currentThread !== activeThread ? currentThread : undefined
+                        );
+                        if (!results[0]) {
+                            Send.error(results[1]);
+                        } else {
+                            const [_, tbl, key] = results;
+                            const keyType = type(key);
+                            if (type(tbl) !== "table") {
+                                Send.error(`Expression "${mappedExpression}" does not start with a table`);
+                            } else if (keyType !== "string" && keyType !== "number" && keyType !== "boolean") {
+                                Send.error("Data breakpoints require a string, number or boolean key");
+                            } else {
+                                const dataId = Breakpoint.addDataTarget(
+                                    tbl as Record<string, unknown>,
+                                    key as string,
+                                    expression
+                                );
+                                Send.dataBreakpointInfo(dataId, expression);
+                            }
+                        }
+                    }
+
+                } else if (cmd === "set") {
+                    const [id, condition] = inp.match("^databreak%s+set%s+(%d+)%s*(.*)$");
+                    const breakpoint = id !== undefined
+                        ? Breakpoint.addData(id, condition !== "" ? condition : undefined)
+                        : undefined;
+                    if (breakpoint !== undefined) {
+                        updateHook();
+                        Send.dataBreakpoints(Breakpoint.getData());
+                    } else {
+                        Send.error("Bad data breakpoint");
                     }
+
+                } else if (cmd === "clear") {
+                    Breakpoint.clearData();
+                    updateHook();
+                    Send.dataBreakpoints(Breakpoint.getData());
+
+                } else if (cmd === "list") {
+                    Send.dataBreakpoints(Breakpoint.getData());
+
                 } else {
-                    Send.error("Bad frame");
+                    Send.error("Bad data breakpoint command");
                 }
 
-            } else if (inp === "locals") {
-                const locs = getLocals(frame + frameOffset, currentThread !== activeThread ? currentThread : undefined);
-                mapVarNames(locs.vars, sourceMap);
-                if (locs.varargs) {
-                    const varArgVals: unknown[] = [];
-                    for (const vararg of locs.varargs) {
-                        table.insert(varArgVals, vararg.val);
+            } else if (inp.sub(1, 9) === "exception") {
+                const [cmd] = inp.match("^exception%s+([a-z]+)");
+                if (cmd === "set") {
+                    const [kind, pattern] = inp.match("^exception%s+set%s+([a-z]+)%s*(.*)$");
+                    if (kind === "runtime" || kind === "error" || kind === "assert" || kind === "coroutine") {
+                        Breakpoint.addException(kind, pattern !== "" ? pattern : undefined);
+                        Send.exceptionFilters(Breakpoint.getExceptions());
+                    } else {
+                        Send.error("Bad exception filter");
                     }
-                    locs.vars["..."] = {val: varArgVals, index: -1, type: "table"};
-                }
-                Send.vars(locs.vars);
 
-            } else if (inp === "ups") {
-                const ups = getUpvalues(info);
-                mapVarNames(ups.vars, sourceMap);
-                Send.vars(ups.vars);
+                } else if (cmd === "clear") {
+                    Breakpoint.clearExceptions();
+                    Send.exceptionFilters(Breakpoint.getExceptions());
 
-            } else if (inp === "globals") {
-                const globs = getGlobals(
-                    frame + frameOffset,
-                    currentThread !== activeThread ? currentThread : undefined
-                );
-                mapVarNames(globs, sourceMap);
-                Send.vars(globs);
+                } else if (cmd === "list") {
+                    Send.exceptionFilters(Breakpoint.getExceptions());
+
+                } else {
+                    Send.error("Bad exception filter command");
+                }
 
             } else if (inp.sub(1, 5) === "break") {
                 const [cmd] = inp.match("^break%s+([a-z]+)");
                 let file: string | undefined;
                 let line: number | undefined;
-                let breakpoint: LuaDebug.Breakpoint | undefined;
+                let breakpoint: Breakpoint | undefined;
                 if (cmd === "set"
+                    || cmd === "log"
+                    || cmd === "hit"
                     || cmd === "del"
                     || cmd === "delete"
                     || cmd === "dis"
@@ -670,13 +1774,34 @@ export namespace Debugger {
                 if (cmd === "set") {
                     if (file !== undefined && line !== undefined) {
                         const [condition] = inp.match("^break%s+[a-z]+%s+.-:%d+%s+(.+)");
-                        Breakpoint.add(file, line, condition);
-                        breakpoint = luaAssert(Breakpoint.get(file, line));
+                        breakpoint = Breakpoint.add(file, line, getLoadedFileLines, condition);
+                        Send.breakpoints([breakpoint]);
+                    } else {
+                        Send.error("Bad breakpoint");
+                    }
+
+                } else if (cmd === "log") {
+                    const [logMessage] = inp.match("^break%s+[a-z]+%s+.-:%d+%s+(.+)");
+                    if (breakpoint !== undefined && logMessage !== undefined) {
+                        breakpoint.logMessage = logMessage;
                         Send.breakpoints([breakpoint]);
                     } else {
                         Send.error("Bad breakpoint");
                     }
 
+                } else if (cmd === "hit") {
+                    const [hitCondition] = inp.match("^break%s+[a-z]+%s+.-:%d+%s+(.+)");
+                    const [operator] = parseHitCondition(hitCondition ?? "");
+                    if (breakpoint === undefined) {
+                        Send.error("Bad breakpoint");
+                    } else if (hitCondition === undefined || operator === undefined) {
+                        Send.error("Bad hit condition");
+                    } else {
+                        breakpoint.hitCondition = hitCondition;
+                        breakpoint.hitCount = 0;
+                        Send.breakpoints([breakpoint]);
+                    }
+
                 } else if (cmd === "del" || cmd === "delete") {
                     if (file !== undefined && line !== undefined) {
                         Breakpoint.remove(file, line);
@@ -737,7 +1862,7 @@ export namespace Debugger {
                 if (!expression) {
                     Send.error("Bad expression");
 
-                } else if (kind !== "all" && kind !== "named" && kind !== "indexed") {
+                } else if (kind !== "all" && kind !== "named" && kind !== "indexed" && kind !== "inherited") {
                     Send.error("Bad kind: " + `'${kind}'`);
 
                 } else {
@@ -749,7 +1874,9 @@ export namespace Debugger {
                         currentThread !== activeThread ? currentThread : undefined
                     );
                     if (s) {
-                        if (type(r) === "table") {
+                        if (type(r) === "table" && kind === "inherited") {
+                            Send.inheritedProps(r as AnyTable);
+                        } else if (type(r) === "table") {
                             Send.props(r as AnyTable, kind, tonumber(first), tonumber(count));
                         } else {
                             Send.error(`Expression "${mappedExpression}" is not a table`);
@@ -759,6 +1886,79 @@ export namespace Debugger {
                     }
                 }
 
+            } else if (inp.sub(1, 5) === "peek ") {
+                const [expression] = inp.match("^peek%s+(.+)$");
+                if (!expression) {
+                    Send.error("Bad expression");
+
+                } else {
+                    const mappedExpression = mapExpressionNames(expression, sourceMap);
+                    const [s, r] = peek(
+                        mappedExpression,
+                        frame + frameOffset,
+                        info,
+                        currentThread !== activeThread ? currentThread : undefined
+                    );
+                    if (s) {
+                        //Values are shown without calling __tostring or formatters
+                        Send.setValueFormat(specifiers !== undefined ? `${specifiers},raw` : "raw");
+                        Send.result(r);
+                    } else {
+                        Send.error(r as string);
+                    }
+                }
+
+            } else if (inp.sub(1, 5) === "copy ") {
+                const [format, maxDepth, maxFields, expression] = inp.match("^copy%s+(%a+)%s+(%d+)%s+(%d+)%s+(.+)$");
+                if (!expression) {
+                    Send.error("Bad expression");
+
+                } else if (format !== "lua" && format !== "json") {
+                    Send.error("Bad format: " + `'${format}'`);
+
+                } else {
+                    const mappedExpression = mapExpressionNames(expression, sourceMap);
+                    const [s, r] = execute(
+                        `return ${mappedExpression}`,
+                        frame + frameOffset,
+                        info,
+                        currentThread !== activeThread ? currentThread : undefined
+                    );
+                    if (s) {
+                        const limits: Format.LiteralLimits = {
+                            maxDepth: luaAssert(tonumber(maxDepth)),
+                            maxFields: luaAssert(tonumber(maxFields))
+                        };
+                        Send.literal(Format.asLiteral(r, format, limits));
+                    } else {
+                        Send.error(r as string);
+                    }
+                }
+
+            } else if (inp.sub(1, 5) === "func ") {
+                const [expression] = inp.match("^func%s+(.+)$");
+                if (!expression) {
+                    Send.error("Bad expression");
+
+                } else {
+                    const mappedExpression = mapExpressionNames(expression, sourceMap);
+                    const [s, r] = execute(
+                        `return ${mappedExpression}`,
+                        frame + frameOffset,
+                        info,
+                        currentThread !== activeThread ? currentThread : undefined
+                    );
+                    if (s) {
+                        if (type(r) === "function") {
+                            sendFunctionProps(r as Bytecode.LuaFunction);
+                        } else {
+                            Send.error(`Expression "${mappedExpression}" is not a function`);
+                        }
+                    } else {
+                        Send.error(r as string);
+                    }
+                }
+
             } else if (inp.sub(1, 4) === "exec") {
                 const [statement] = inp.match("^exec%s+(.+)$");
                 if (!statement) {
@@ -810,36 +2010,76 @@ export namespace Debugger {
                     }
                 }
 
+            } else if (inp.sub(1, 6) === "format") {
+                const [cmd] = inp.match("^format%s+([a-z]+)");
+                if (cmd === "set") {
+                    const [kind, match, display, children] = inp.match(
+                        "^format%s+set%s+([a-z]+)%s+([^\t]+)\t([^\t]+)\t?([^\t]*)$"
+                    );
+                    if (kind !== "metatable" && kind !== "class" && kind !== "predicate") {
+                        Send.error("Bad formatter kind");
+                    } else if (match === undefined || display === undefined) {
+                        Send.error("Bad formatter");
+                    } else {
+                        const err = Formatter.add(kind, match, display, children !== "" ? children : undefined);
+                        if (err !== undefined) {
+                            Send.error(err);
+                        } else {
+                            Send.result(`Added formatter for ${kind} "${match}"`);
+                        }
+                    }
+
+                } else if (cmd === "clear") {
+                    Formatter.clear();
+                    Send.result(undefined);
+
+                } else {
+                    Send.error("Bad format command");
+                }
+
             } else {
                 Send.error("Bad command");
             }
         }
 
+        Registry.clear();
+        Breakpoint.refreshData();
         updateHook();
         inDebugBreak = false;
         return true; //Resume execution immediately without checking breakpoints
     }
 
-    function comparePaths(a: string, b: string) {
-        let aLen = a.length;
-        const bLen = b.length;
-        if (aLen === bLen) {
-            return a === b;
-        }
-        //Ensure 'a' is the shorter path
-        if (bLen < aLen) {
-            [a, aLen, b] = [b, bLen, a];
-        }
-        if (a !== b.sub(-aLen)) {
-            return false;
-        }
-        //If shorter string doesn't start with '/', make sure the longer one has '/' right before the substring
-        //so we don't match a partial filename.
-        if (a.sub(1, 1) === Path.separator) {
-            return true;
+    //Replace {expression} segments in a logpoint's message with their evaluated values
+    function formatLogMessage(
+        logMessage: string,
+        sourceMap: SourceMap | undefined,
+        level: number,
+        info: debug.FunctionInfo
+    ) {
+        const parts: string[] = [];
+        let position = 1;
+        while (true) {
+            const [start, finish] = logMessage.find("%b{}", position);
+            if (start === undefined || finish === undefined) {
+                break;
+            }
+            table.insert(parts, logMessage.sub(position, start - 1));
+
+            const expression = mapExpressionNames(logMessage.sub(start + 1, finish - 1), sourceMap);
+            const [success, result] = execute(`return ${expression}`, level + 1, info);
+            if (!success) {
+                table.insert(parts, `[error: ${result}]`);
+            } else if (typeof result === "string") {
+                table.insert(parts, result);
+            } else {
+                const [_, str] = pcall(tostring, result);
+                table.insert(parts, tostring(str));
+            }
+
+            position = finish + 1;
         }
-        const bSep = -(aLen + 1);
-        return b.sub(bSep, bSep) === Path.separator;
+        table.insert(parts, logMessage.sub(position));
+        return table.concat(parts);
     }
 
     const debugHookStackOffset = 2;
@@ -847,9 +2087,128 @@ export namespace Debugger {
     const stepUnmappedLinesEnv: LuaDebug.StepUnmappedLinesEnv = "LOCAL_LUA_DEBUGGER_STEP_UNMAPPED_LINES";
     const skipUnmappedLines = (os.getenv(stepUnmappedLinesEnv) !== "1");
 
-    function debugHook(event: "call" | "return" | "tail return" | "count" | "line", line?: number) {
+    function checkFunctionBreakpoints() {
+        const info = debug.getinfo(debugHookStackOffset + 1, "nSluf");
+        if (!info || !info.func) {
+            return;
+        }
+
+        //Ignore debugger code
+        if (info.source && info.source.sub(-debuggerName.length) === debuggerName) {
+            return;
+        }
+        registerSource(info);
+
+        for (const breakpoint of Breakpoint.getFunctions()) {
+            let hit = breakpoint.enabled
+                && (breakpoint.name === info.name || resolveFunctionPath(breakpoint.name) === info.func);
+            let message = `function breakpoint hit: "${breakpoint.name}"`;
+            if (hit && breakpoint.condition) {
+                const sourceMap = info.source !== undefined ? SourceMap.get(Path.format(info.source)) : undefined;
+                const mappedCondition = mapExpressionNames(breakpoint.condition, sourceMap);
+                const [success, result] = execute(`return ${mappedCondition}`, debugHookStackOffset + 1, info);
+                if (success && result) {
+                    message += `, "${breakpoint.condition}" = "${result}"`;
+                } else {
+                    hit = false;
+                }
+            }
+
+            if (hit) {
+                //C functions have no lines to break on, so break at the call
+                if (info.what === "C") {
+                    const activeThread = getActiveThread();
+                    Send.debugBreak(message, "breakpoint", getThreadId(activeThread));
+                    debugBreak(activeThread, debugHookStackOffset + 1);
+                } else {
+                    setPendingBreak(message, "breakpoint");
+                }
+                return;
+            }
+        }
+    }
+
+    function checkDataBreakpoints() {
+        if (inDebugBreak) {
+            return false;
+        }
+
+        //Update every snapshot before breaking, so simultaneous changes don't trigger again later
+        let message: string | undefined;
+        for (const breakpoint of Breakpoint.getData()) {
+            const value = rawget(breakpoint.tbl, breakpoint.key);
+            if (value !== breakpoint.value && !(luaIsNaN(value) && luaIsNaN(breakpoint.value))) {
+                breakpoint.value = value;
+                if (breakpoint.enabled && message === undefined) {
+                    message = `data breakpoint hit: "${breakpoint.description}"`;
+                    if (breakpoint.condition) {
+                        const info = luaAssert(debug.getinfo(debugHookStackOffset + 1, "nSluf"));
+                        const sourceMap = info.source !== undefined
+                            ? SourceMap.get(Path.format(info.source))
+                            : undefined;
+                        const mappedCondition = mapExpressionNames(breakpoint.condition, sourceMap);
+                        const [success, result] = execute(`return ${mappedCondition}`, debugHookStackOffset + 1, info);
+                        if (success && result) {
+                            message += `, "${breakpoint.condition}" = "${result}"`;
+                        } else {
+                            message = undefined;
+                        }
+                    }
+                }
+            }
+        }
+
+        if (message === undefined) {
+            return false;
+        }
+        const activeThread = getActiveThread();
+        Send.debugBreak(message, "data", getThreadId(activeThread));
+        debugBreak(activeThread, debugHookStackOffset + 1);
+        return true;
+    }
+
+    function debugHook(
+        event: "call" | "tail call" | "return" | "tail return" | "count" | "line",
+        line?: number
+    ) {
+        //Pausing
+        if (event === "count" && !stepInstructions) {
+            if (!pendingBreak && checkForPause()) {
+                //Break at next line so pausing behaves the same as stepping in
+                setPendingBreak("pause", "pause");
+            }
+            return;
+        }
+
+        //Function breakpoints
+        if (event === "call" || event === "tail call") {
+            checkFunctionBreakpoints();
+            return;
+        }
+
+        //Line events come after count events for the same instruction, so don't break on it twice
+        if (skipLineEvent) {
+            skipLineEvent = false;
+            if (event === "line") {
+                return;
+            }
+        }
+
+        //Count events don't provide the current line
+        if (event === "count") {
+            line = getLine(luaAssert(debug.getinfo(debugHookStackOffset, "l")));
+        }
+
+        //Data breakpoints
+        if (event !== "count" && Breakpoint.getData().length > 0 && checkDataBreakpoints()) {
+            return;
+        }
+        if (event !== "line" && event !== "count") {
+            return;
+        }
+
         //Stepping
-        if (breakAtDepth >= 0) {
+        if (breakAtDepth >= 0 && (event === "count") === stepInstructions) {
             const activeThread = getActiveThread();
 
             let stepBreak: boolean;
@@ -860,11 +2219,18 @@ export namespace Debugger {
             } else {
                 stepBreak = breakInThread !== mainThread && coroutine.status(breakInThread as LuaThread) === "dead";
             }
+
+            //Keep stepping through calls until the chosen function is entered, or the line is finished
+            if (stepBreak && stepInTarget !== undefined) {
+                stepBreak = (activeThread === stepInThread && getStack(debugHookStackOffset).length <= stepInDepth)
+                    || isStepInTarget(luaAssert(debug.getinfo(debugHookStackOffset, "nf")), stepInTarget);
+            }
             if (stepBreak) {
                 const topFrameSource = debug.getinfo(debugHookStackOffset, "S");
                 if (!topFrameSource || !topFrameSource.source) {
                     return;
                 }
+                registerSource(topFrameSource);
 
                 //Ignore debugger code
                 if (topFrameSource.source.sub(-debuggerName.length) === debuggerName) {
@@ -892,7 +2258,7 @@ export namespace Debugger {
                 }
 
                 //Ignore un-mapped lines in files with source maps
-                if (skipUnmappedLines) {
+                if (skipUnmappedLines && !stepInstructions) {
                     source ||= Path.format(topFrameSource.source);
                     const sourceMap = SourceMap.get(source);
                     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -901,12 +2267,21 @@ export namespace Debugger {
                     }
                 }
 
-                Send.debugBreak("step", "step", getThreadId(activeThread));
+                const [message, breakType] = pendingBreak ?? ["step", "step"];
+                Send.debugBreak(message, breakType, getThreadId(activeThread));
+                if (event === "count") {
+                    debugBreak(activeThread, debugHookStackOffset, line);
+                    skipLineEvent = true;
+                    return;
+                }
                 if (debugBreak(activeThread, debugHookStackOffset, line)) {
                     return;
                 }
             }
         }
+        if (event === "count") {
+            return;
+        }
 
         //Breakpoints
         // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -919,44 +2294,57 @@ export namespace Debugger {
         if (!topFrame || !topFrame.source) {
             return;
         }
+        registerSource(topFrame);
         const source = Path.format(topFrame.source);
         topFrame = undefined;
 
         for (const breakpoint of lineBreakpoints) {
             if (breakpoint.enabled && comparePaths(breakpoint.file, source)) {
+                let hitMessage: string | undefined;
+                const [breakpointFile, breakpointLine] = [
+                    breakpoint.sourceFile || breakpoint.file,
+                    breakpoint.sourceLine || breakpoint.line
+                ];
                 if (breakpoint.condition) {
                     const mappedCondition = mapExpressionNames(breakpoint.condition, breakpoint.sourceMap);
                     const condition = `return ${mappedCondition}`;
                     topFrame = topFrame || luaAssert(debug.getinfo(debugHookStackOffset, "nSluf"));
                     const [success, result] = execute(condition, debugHookStackOffset, topFrame);
                     if (success && result) {
-                        const activeThread = getActiveThread();
                         const conditionDisplay = `"${breakpoint.condition}" = "${result}"`;
-                        const [breakpointFile, breakpointLine] = [
-                            breakpoint.sourceFile || breakpoint.file,
-                            breakpoint.sourceLine || breakpoint.line
-                        ];
-                        Send.debugBreak(
-                            `breakpoint hit: "${breakpointFile}:${breakpointLine}", ${conditionDisplay}`,
-                            "breakpoint",
-                            getThreadId(activeThread)
+                        hitMessage = `breakpoint hit: "${breakpointFile}:${breakpointLine}", ${conditionDisplay}`;
+                    }
+                } else {
+                    hitMessage = `breakpoint hit: "${breakpointFile}:${breakpointLine}"`;
+                }
+
+                if (hitMessage !== undefined) {
+                    ++breakpoint.hitCount;
+                    if (breakpoint.hitCondition) {
+                        if (checkHitCondition(breakpoint.hitCondition, breakpoint.hitCount)) {
+                            hitMessage = `${hitMessage}, hit count ${breakpoint.hitCount}`;
+                        } else {
+                            hitMessage = undefined;
+                        }
+                    }
+                }
+
+                if (hitMessage !== undefined) {
+                    if (breakpoint.logMessage) {
+                        topFrame = topFrame || luaAssert(debug.getinfo(debugHookStackOffset, "nSluf"));
+                        const logMessage = formatLogMessage(
+                            breakpoint.logMessage,
+                            breakpoint.sourceMap,
+                            debugHookStackOffset,
+                            topFrame
                         );
+                        Send.log(logMessage, breakpointFile, breakpointLine);
+                    } else {
+                        const activeThread = getActiveThread();
+                        Send.debugBreak(hitMessage, "breakpoint", getThreadId(activeThread));
                         debugBreak(activeThread, debugHookStackOffset, line);
                         break;
                     }
-                } else {
-                    const activeThread = getActiveThread();
-                    const [breakpointFile, breakpointLine] = [
-                        breakpoint.sourceFile || breakpoint.file,
-                        breakpoint.sourceLine || breakpoint.line
-                    ];
-                    Send.debugBreak(
-                        `breakpoint hit: "${breakpointFile}:${breakpointLine}"`,
-                        "breakpoint",
-                        getThreadId(activeThread)
-                    );
-                    debugBreak(activeThread, debugHookStackOffset, line);
-                    break;
                 }
             }
         }
@@ -984,16 +2372,31 @@ export namespace Debugger {
         return str;
     }
 
-    function breakForError(err: unknown, level: number, propagate: true): never;
-    function breakForError(err: unknown, level?: number, propagate?: false): void;
-    function breakForError(err: unknown, level?: number, propagate?: boolean) {
+    function shouldBreakForError(kind: LuaDebug.ErrorKind, message: string) {
+        for (const filter of Breakpoint.getExceptions()) {
+            if (filter.kind === kind) {
+                if (filter.pattern === undefined) {
+                    return true;
+                }
+                const [success, match] = pcall(string.match, message, filter.pattern);
+                if (!success || match !== undefined) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    function breakForError(err: unknown, level: number, propagate: true, kind?: LuaDebug.ErrorKind): never;
+    function breakForError(err: unknown, level?: number, propagate?: false, kind?: LuaDebug.ErrorKind): void;
+    function breakForError(err: unknown, level?: number, propagate?: boolean, kind?: LuaDebug.ErrorKind) {
         const message = mapSources(tostring(err));
         level = (level ?? 1) + 1;
 
         if (skipNextBreak) {
             skipNextBreak = false;
 
-        } else if (!inDebugBreak) {
+        } else if (!inDebugBreak && shouldBreakForError(kind ?? "runtime", message)) {
             const thread = getActiveThread();
             Send.debugBreak(message, "error", getThreadId(thread));
             debugBreak(thread, level);
@@ -1012,9 +2415,9 @@ export namespace Debugger {
         ++nextThreadId;
         threadIds.set(thread, threadId);
 
-        const [hook] = debug.gethook();
+        const [hook, mask, count] = debug.gethook();
         if (hook === debugHook) {
-            debug.sethook(thread, debugHook, "l");
+            debug.sethook(thread, debugHook, mask, count);
         }
 
         return threadId;
@@ -1039,7 +2442,7 @@ export namespace Debugger {
                 function wrappedFunc() {
                     return originalFunc(...args);
                 }
-                const results = xpcall(wrappedFunc, breakForError);
+                const results = xpcall(wrappedFunc, (err: unknown) => breakForError(err, 2, false, "coroutine"));
                 if (results[0]) {
                     return unpack(results, 2);
                 } else {
@@ -1063,7 +2466,7 @@ export namespace Debugger {
         threadStackOffsets.set(activeThread, 1);
         const results = luaCoroutineResume(thread, ...args);
         if (!results[0]) {
-            breakForError(results[1], 2);
+            breakForError(results[1], 2, false, "coroutine");
         }
         threadStackOffsets.delete(activeThread);
         return results;
@@ -1078,7 +2481,7 @@ export namespace Debugger {
             threadStackOffsets.set(activeThread, 1);
             const results = luaCoroutineResume(thread, ...args);
             if (!results[0]) {
-                breakForError(results[1], 2, true);
+                breakForError(results[1], 2, true, "coroutine");
             }
             threadStackOffsets.delete(activeThread);
             return unpack(results, 2);
@@ -1106,7 +2509,7 @@ export namespace Debugger {
         //Break if debugging globally and traceback was not called manually from scripts
         } else if (hookStack[hookStack.length - 1] === HookType.Global) {
             const info = debug.getinfo(2, "S");
-            if (info && info.what === "C") {
+            if (info && info.what === "C" && shouldBreakForError("runtime", trace)) {
                 const thread = isThread(threadOrMessage) ? threadOrMessage : getActiveThread();
                 Send.debugBreak(trace, "error", getThreadId(thread));
                 debugBreak(thread, 3);
@@ -1118,17 +2521,66 @@ export namespace Debugger {
 
     //error replacement for catching errors
     function debuggerError(message: string, level?: number): never {
-        breakForError(message, (level ?? 1) + 1, true);
+        breakForError(message, (level ?? 1) + 1, true, "error");
     }
 
     function debuggerAssert(v: unknown, ...args: unknown[]) {
         if (!v) {
             const message = args[0] !== undefined && args[0] || "assertion failed";
-            breakForError(message, 1, true);
+            breakForError(message, 1, true, "assert");
         }
         return $multi(v, ...args);
     }
 
+    //Loader replacements for keeping the text of chunks loaded from strings (or reader functions), so it can be
+    //shown when stepping through them. Files don't need this, since their text can always be read again.
+    type Loader = (this: void, ...args: unknown[]) => LuaMultiReturn<unknown[]>;
+
+    //Results are passed along as varargs, so all of them are returned even if some are nil
+    function onStringLoaded(text: string | undefined, pieces: string[], ...results: unknown[]) {
+        const [result] = select(1, ...results);
+        if (type(result) === "function") {
+            const info = luaAssert(debug.getinfo(result as DebuggableFunction, "Sf"));
+            text ??= table.concat(pieces);
+            //Skip precompiled chunks
+            if (info.source && isStringChunk(info.source) && text.sub(1, 1) !== string.char(27)) {
+                chunkFunctionIds.set(result as AnyNotNil, addChunk(info.source, text));
+            }
+            registerSource(info);
+        }
+        return $multi(...results);
+    }
+
+    function wrapStringLoader(loader: Loader): Loader {
+        return (chunk: unknown, ...args: unknown[]) => {
+            let text: string | undefined;
+            const pieces: string[] = [];
+            if (typeof chunk === "string") {
+                text = chunk;
+            } else if (typeof chunk === "function") {
+                const reader = chunk as (this: void) => unknown;
+                chunk = () => {
+                    const piece = reader();
+                    if (typeof piece === "string") {
+                        table.insert(pieces, piece);
+                    }
+                    return piece;
+                };
+            }
+            return onStringLoaded(text, pieces, ...loader(chunk, ...args));
+        };
+    }
+
+    const debuggerLoad = wrapStringLoader(luaLoad as unknown as Loader);
+    const debuggerLoadString = luaLoadString && wrapStringLoader(luaLoadString as unknown as Loader);
+
+    function setLoaders(wrapped: boolean) {
+        _G.load = (wrapped ? debuggerLoad : luaLoad) as typeof _G.load;
+        if (luaLoadString) {
+            _G.loadstring = luaAssert(wrapped ? debuggerLoadString : luaLoadString) as typeof _G.loadstring;
+        }
+    }
+
     function setErrorHandler() {
         const hookType = hookStack[hookStack.length - 1];
         if (hookType !== undefined) {
@@ -1143,7 +2595,21 @@ export namespace Debugger {
     }
 
     updateHook = function() {
-        if (breakAtDepth < 0 && Breakpoint.getCount() === 0) {
+        const hasDataBreakpoints = Breakpoint.getData().length > 0;
+        let mask = (breakAtDepth < 0 && Breakpoint.getCount() === 0 && !hasDataBreakpoints) ? "" : "l";
+        if (Breakpoint.getFunctions().length > 0) {
+            mask += "c";
+        }
+        if (hasDataBreakpoints) {
+            mask += "r";
+        }
+        //Attached adapters are also polled so detaching takes effect while running
+        const pollInput = pauseWhileRunning && canPause() || isAttached && inputFile.poll !== undefined;
+        let count = (hookStack.length > 0 && pollInput) ? pauseCheckInterval : 0;
+        if (stepInstructions && breakAtDepth >= 0) {
+            count = 1;
+        }
+        if (mask === "" && count === 0) {
             debug.sethook();
 
             for (const [thread] of pairs(threadIds)) {
@@ -1152,11 +2618,11 @@ export namespace Debugger {
                 }
             }
         } else {
-            debug.sethook(debugHook, "l");
+            debug.sethook(debugHook, mask, count);
 
             for (const [thread] of pairs(threadIds)) {
                 if (isThread(thread) && coroutine.status(thread) !== "dead") {
-                    debug.sethook(thread, debugHook, "l");
+                    debug.sethook(thread, debugHook, mask, count);
                 }
             }
         }
@@ -1173,6 +2639,8 @@ export namespace Debugger {
         coroutine.wrap = luaCoroutineWrap;
         coroutine.resume = luaCoroutineResume;
 
+        setLoaders(false);
+
         debug.sethook();
 
         for (const [thread] of pairs(threadIds)) {
@@ -1182,6 +2650,35 @@ export namespace Debugger {
         }
     }
 
+    //Stop debugging and drop the connection to an attached debug adapter
+    detach = function() {
+        Breakpoint.clear();
+        Breakpoint.clearFunctions();
+        Breakpoint.clearData();
+        Breakpoint.clearExceptions();
+        Formatter.clear();
+        Registry.clear();
+        clearHook();
+
+        //Reset the rest of the session, so a later attach starts fresh
+        breakAtDepth = -1;
+        breakInThread = undefined;
+        stepInstructions = false;
+        stepInTarget = undefined;
+        pendingBreak = undefined;
+        ignorePatterns = undefined;
+        pauseWhileRunning = false;
+        isAttached = false;
+        inputClosed = false;
+    };
+
+    //Use a stream from an attached debug adapter for communication
+    export function attach(stream: DebugStream): void {
+        inputFile = stream;
+        Send.setOutput(stream);
+        isAttached = true;
+    }
+
     const breakInCoroutinesEnv: LuaDebug.BreakInCoroutinesEnv = "LOCAL_LUA_DEBUGGER_BREAK_IN_COROUTINES";
     const breakInCoroutines = os.getenv(breakInCoroutinesEnv) === "1";
 
@@ -1199,6 +2696,8 @@ export namespace Debugger {
         coroutine.wrap = debuggerCoroutineWrap;
         coroutine.resume = breakInCoroutines ? debuggerCoroutineResume : luaCoroutineResume;
 
+        setLoaders(true);
+
         const currentThread = coroutine.running();
         if (currentThread && !threadIds.get(currentThread)) {
             registerThread(currentThread);
@@ -1236,6 +2735,7 @@ export namespace Debugger {
         args: unknown[]
     ): LuaMultiReturn<unknown[]> {
         pushHook(HookType.Function);
+        registerSource(luaAssert(debug.getinfo(func, "S")));
 
         if (breakImmediately) {
             triggerBreak();
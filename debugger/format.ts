@@ -20,7 +20,7 @@
 //OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 //SOFTWARE.
 
-import {luaRawLen, luaAssert} from "./luafuncs";
+import {luaRawLen, luaAssert, luaIsNaN} from "./luafuncs";
 
 export namespace Format {
     // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
@@ -80,6 +80,44 @@ export namespace Format {
         return true;
     }
 
+    const keyTypeOrder: {[keyType: string]: number | undefined} = {number: 1, string: 2, boolean: 3};
+    const otherKeyTypeOrder = 4;
+
+    //Sort keys the same way the client sorts variables: numbers first, then names ignoring case
+    export function sortKeys(keys: unknown[]): unknown[] {
+        const lowerNames = new LuaTable<string, string>();
+        for (const key of keys) {
+            if (typeof key === "string") {
+                lowerNames.set(key, key.lower());
+            }
+        }
+        table.sort(keys, (a, b) => {
+            const aType = type(a);
+            const bType = type(b);
+            if (aType !== bType) {
+                const aOrder = keyTypeOrder[aType] ?? otherKeyTypeOrder;
+                const bOrder = keyTypeOrder[bType] ?? otherKeyTypeOrder;
+                if (aOrder !== bOrder) {
+                    return aOrder < bOrder;
+                }
+                return aType < bType;
+            } else if (aType === "number") {
+                return (a as number) < (b as number);
+            } else if (aType === "string") {
+                const aLower = luaAssert(lowerNames.get(a as string));
+                const bLower = luaAssert(lowerNames.get(b as string));
+                if (aLower !== bLower) {
+                    return aLower < bLower;
+                }
+                return (a as string) < (b as string);
+            } else if (aType === "boolean") {
+                return a === false && b === true;
+            }
+            return false;
+        });
+        return keys;
+    }
+
     export function asJson(val: AnyNotNil, indent = 0, tables?: LuaTable<AnyNotNil, boolean>): string {
         tables = tables ?? new LuaTable();
 
@@ -111,4 +149,209 @@ export namespace Format {
             return `"${escape(tostring(val))}"`;
         }
     }
+
+    //Limits on how much of a value is written, so huge or deeply nested tables don't stall the debugger
+    export interface LiteralLimits {
+        maxDepth: number;
+        maxFields: number;
+    }
+
+    interface LiteralState {
+        format: LuaDebug.LiteralFormat;
+        limits: LiteralLimits;
+        fields: number;
+        ancestors: LuaTable<AnyNotNil, string | undefined>;
+    }
+
+    const luaKeywords: {[keyword: string]: boolean | undefined} = {
+        and: true, break: true, do: true, else: true, elseif: true, end: true, false: true, for: true,
+        function: true, goto: true, if: true, in: true, local: true, nil: true, not: true, or: true,
+        repeat: true, return: true, then: true, true: true, until: true, while: true
+    };
+
+    function isIdentifier(key: unknown): key is string {
+        return typeof key === "string" && key.match("^[%a_][%w_]*$")[0] !== undefined && !luaKeywords[key];
+    }
+
+    //Values which can't be written are replaced with nil and a comment in Lua, or an object describing them in JSON
+    function marker(state: LiteralState, kind: string, description: string) {
+        if (state.format === "lua") {
+            const [safeDescription] = description.gsub("%]%]", "] ]");
+            return `nil --[[${kind}: ${safeDescription}]]`;
+        }
+        return `{"$${kind}": "${escape(description)}"}`;
+    }
+
+    function rawString(val: unknown) {
+        const [success, str] = pcall(tostring, val);
+        return success ? str : type(val);
+    }
+
+    function numberLiteral(val: number, format: LuaDebug.LiteralFormat) {
+        if (luaIsNaN(val)) {
+            return format === "lua" ? "0/0" : "null";
+        } else if (val === math.huge) {
+            return format === "lua" ? "math.huge" : "null";
+        } else if (val === -math.huge) {
+            return format === "lua" ? "-math.huge" : "null";
+        }
+
+        //Use the short form unless it loses precision
+        const str = tostring(val);
+        if (tonumber(str) === val) {
+            return str;
+        }
+        return string.format("%.17g", val);
+    }
+
+    function stringLiteral(str: string, format: LuaDebug.LiteralFormat) {
+        if (format === "lua") {
+            const [quoted] = string.format("%q", str).gsub("\\\n", "\\n");
+            return quoted;
+        }
+        return `"${escape(str)}"`;
+    }
+
+    function keyLiteral(key: unknown, format: LuaDebug.LiteralFormat) {
+        if (typeof key === "string") {
+            return stringLiteral(key, format);
+        } else if (typeof key === "number") {
+            return numberLiteral(key, format);
+        }
+        return undefined;
+    }
+
+    function childPath(path: string, key: unknown, format: LuaDebug.LiteralFormat) {
+        if (format === "json") {
+            const [tildeEscapedKey] = rawString(key).gsub("~", "~0");
+            const [escapedKey] = tildeEscapedKey.gsub("/", "~1");
+            return `${path}/${escapedKey}`;
+        } else if (isIdentifier(key)) {
+            return `${path}.${key}`;
+        }
+        return `${path}[${keyLiteral(key, format) ?? rawString(key)}]`;
+    }
+
+    function literal(val: unknown, depth: number, path: string, state: LiteralState): string {
+        const valType = type(val);
+        if (valType === "nil") {
+            return state.format === "lua" ? "nil" : "null";
+        } else if (valType === "boolean") {
+            return tostring(val);
+        } else if (valType === "number") {
+            return numberLiteral(val as number, state.format);
+        } else if (valType === "string") {
+            return stringLiteral(val as string, state.format);
+        } else if (valType !== "table") {
+            return marker(state, valType, rawString(val));
+        }
+
+        const tbl = val as AnyTable;
+        const cyclePath = state.ancestors.get(tbl);
+        if (cyclePath !== undefined) {
+            return marker(state, "cycle", cyclePath);
+        } else if (depth >= state.limits.maxDepth) {
+            return marker(state, "truncated", `${rawString(tbl)} deeper than ${state.limits.maxDepth}`);
+        }
+        state.ancestors.set(tbl, path);
+
+        //A __pairs proxy may list fields it doesn't hold, so its values are the ones written
+        const keys: unknown[] = [];
+        const values = new LuaTable<AnyNotNil, unknown>();
+        for (const [key, fieldVal] of pairs(tbl)) {
+            table.insert(keys, key);
+            values.set(key, fieldVal);
+        }
+        sortKeys(keys);
+
+        //Lua entries end with their own commas, so comments can go between them
+        const isJsonArray = state.format === "json" && isArray(tbl);
+        const entrySuffix = state.format === "lua" ? "," : "";
+        const entries: string[] = [];
+        let position = 1;
+        let skipped = 0;
+
+        //JSON keys are all strings, so string keys are reserved first and other keys which turn into a taken name
+        //are marked with their type instead
+        const jsonKeys = new LuaTable<string, boolean | undefined>();
+        if (state.format === "json" && !isJsonArray) {
+            for (const key of keys) {
+                if (typeof key === "string") {
+                    jsonKeys.set(key, true);
+                }
+            }
+        }
+        for (const key of keys) {
+            if (state.fields >= state.limits.maxFields) {
+                ++skipped;
+            } else {
+                ++state.fields;
+                const fieldPath = childPath(path, key, state.format);
+                const valStr = literal(values.get(key as AnyNotNil), depth + 1, fieldPath, state);
+                if (isJsonArray || key === position) {
+                    //Holes in JSON arrays are filled so later elements keep their positions
+                    while (isJsonArray && position < (key as number)) {
+                        table.insert(entries, "null");
+                        ++position;
+                    }
+                    table.insert(entries, `${valStr}${entrySuffix}`);
+                    ++position;
+                } else if (state.format === "json") {
+                    let keyStr = typeof key === "string" ? key : rawString(key);
+                    if (typeof key !== "string") {
+                        const baseKeyStr = keyStr;
+                        let duplicates = 0;
+                        while (jsonKeys.get(keyStr)) {
+                            ++duplicates;
+                            keyStr = `$${type(key)}${duplicates > 1 ? duplicates : ""}: ${baseKeyStr}`;
+                        }
+                        jsonKeys.set(keyStr, true);
+                    }
+                    table.insert(entries, `"${escape(keyStr)}": ${valStr}`);
+                } else if (isIdentifier(key)) {
+                    table.insert(entries, `${key} = ${valStr},`);
+                } else {
+                    let keyStr = keyLiteral(key, state.format);
+                    if (typeof key === "boolean") {
+                        keyStr = tostring(key);
+                    }
+                    if (keyStr !== undefined) {
+                        table.insert(entries, `[${keyStr}] = ${valStr},`);
+                    } else {
+                        const [safeKey] = rawString(key).gsub("%]%]", "] ]");
+                        table.insert(entries, `--[[skipped field with key ${safeKey}]]`);
+                    }
+                }
+            }
+        }
+        if (skipped > 0) {
+            if (state.format === "lua") {
+                table.insert(entries, `--[[${skipped} more fields]]`);
+            } else if (isJsonArray) {
+                table.insert(entries, `{"$truncated": "${skipped} more elements"}`);
+            } else {
+                table.insert(entries, `"$truncated": "${skipped} more fields"`);
+            }
+        }
+        state.ancestors.set(tbl, undefined);
+
+        let open = "{";
+        let close = "}";
+        if (isJsonArray) {
+            open = "[";
+            close = "]";
+        }
+        if (entries.length === 0) {
+            return `${open}${close}`;
+        }
+        const indent = indentStr.rep(depth + 1);
+        const separator = state.format === "lua" ? `\n${indent}` : `,\n${indent}`;
+        return `${open}\n${indent}${table.concat(entries, separator)}\n${indentStr.rep(depth)}${close}`;
+    }
+
+    //Write a value as a Lua table constructor or JSON, with markers where cycles, limits or unwritable values were hit
+    export function asLiteral(val: unknown, format: LuaDebug.LiteralFormat, limits: LiteralLimits): string {
+        const state: LiteralState = {format, limits, fields: 0, ancestors: new LuaTable()};
+        return literal(val, 0, format === "lua" ? "value" : "#", state);
+    }
 }
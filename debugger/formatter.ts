@@ -0,0 +1,170 @@
+//MIT License
+//
+//Copyright (c) 2020 Tom Blind
+//
+//Permission is hereby granted, free of charge, to any person obtaining a copy
+//of this software and associated documentation files (the "Software"), to deal
+//in the Software without restriction, including without limitation the rights
+//to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//copies of the Software, and to permit persons to whom the Software is
+//furnished to do so, subject to the following conditions:
+//
+//The above copyright notice and this permission notice shall be included in all
+//copies or substantial portions of the Software.
+//
+//THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+//SOFTWARE.
+
+import {loadLuaString} from "./luafuncs";
+
+//User-defined display and expansion of values, configured from the launch config
+export namespace Formatter {
+    export type Kind = "metatable" | "class" | "predicate";
+
+    type Expression = (this: void, value: unknown) => unknown;
+
+    interface ValueFormatter {
+        kind: Kind;
+        match: string;
+        predicate?: Expression;
+        display: Expression;
+        children?: Expression;
+    }
+
+    const formatters: ValueFormatter[] = [];
+
+    export type Runner = (
+        this: void,
+        func: (this: void, ...args: unknown[]) => unknown,
+        varargs: unknown[]
+    ) => LuaMultiReturn<[true, ...unknown[]] | [false, unknown]>;
+
+    let runner: Runner = (func, varargs) => pcall(func, ...unpack(varargs));
+
+    //Expressions are user code, so the debugger runs them with the same limits as its evaluations
+    export function setRunner(newRunner: Runner): void {
+        runner = newRunner;
+    }
+
+    //Expressions are compiled into functions which receive the value being formatted as 'value'
+    function compile(expression: string): LuaMultiReturn<[Expression, undefined] | [undefined, string]> {
+        const [func, err] = loadLuaString(`local value = ... return ${expression}`);
+        if (!func) {
+            return $multi(undefined, `Bad expression "${expression}": ${err}`);
+        }
+        return $multi(func as unknown as Expression, undefined);
+    }
+
+    function resolveClassPath(path: string) {
+        let value: unknown = _G;
+        for (const [name] of path.gmatch("[^%.:]+")) {
+            if (type(value) !== "table") {
+                return undefined;
+            }
+            value = rawget(value as Record<string, unknown>, name);
+        }
+        return value;
+    }
+
+    function matches(formatter: ValueFormatter, value: unknown) {
+        if (formatter.predicate) {
+            const [success, result] = runner(formatter.predicate, [value]);
+            return success && result !== undefined && result !== false;
+        }
+
+        const mt = debug.getmetatable(value) as Record<string, unknown> | undefined;
+        if (mt === undefined) {
+            return false;
+        } else if (formatter.kind === "metatable") {
+            return rawget(mt, "__name") === formatter.match;
+        } else {
+            const cls = resolveClassPath(formatter.match);
+            return cls !== undefined && (mt === cls || rawget(mt, "__index") === cls);
+        }
+    }
+
+    function find(value: unknown) {
+        const valueType = type(value);
+        if (formatters.length === 0 || (valueType !== "table" && valueType !== "userdata")) {
+            return undefined;
+        }
+        for (const formatter of formatters) {
+            if (matches(formatter, value)) {
+                return formatter;
+            }
+        }
+    }
+
+    //Returns an error message if any of the expressions can't be compiled
+    export function add(
+        kind: Kind,
+        match: string,
+        displayExpression: string,
+        childrenExpression?: string
+    ): string | undefined {
+        let predicate: Expression | undefined;
+        let err: string | undefined;
+        if (kind === "predicate") {
+            [predicate, err] = compile(match);
+            if (!predicate) {
+                return err;
+            }
+        }
+        const [displayFunc, displayErr] = compile(displayExpression);
+        if (!displayFunc) {
+            return displayErr;
+        }
+        let childrenFunc: Expression | undefined;
+        if (childrenExpression !== undefined) {
+            [childrenFunc, err] = compile(childrenExpression);
+            if (!childrenFunc) {
+                return err;
+            }
+        }
+        table.insert(formatters, {kind, match, predicate, display: displayFunc, children: childrenFunc});
+    }
+
+    export function clear(): void {
+        while (formatters.length > 0) {
+            table.remove(formatters);
+        }
+    }
+
+    //Get a value's display string from its formatter, if it has one
+    export function display(value: unknown): string | undefined {
+        const formatter = find(value);
+        if (!formatter) {
+            return undefined;
+        }
+        const [success, result] = runner(formatter.display, [value]);
+        if (!success) {
+            return `[error: ${tostring(result)}]`;
+        }
+        return tostring(result);
+    }
+
+    export function hasChildren(value: unknown): boolean {
+        const formatter = find(value);
+        return formatter !== undefined && formatter.children !== undefined;
+    }
+
+    //Get the table to show in place of a value's fields, if its formatter has one
+    export function children(value: unknown): LuaMultiReturn<[AnyTable, undefined] | [undefined, string?]> {
+        const formatter = find(value);
+        if (!formatter || !formatter.children) {
+            return $multi(undefined);
+        }
+        const [success, result] = runner(formatter.children, [value]);
+        if (!success) {
+            return $multi(undefined, tostring(result));
+        } else if (type(result) !== "table") {
+            return $multi(undefined, `children of ${formatter.match} are not a table`);
+        }
+        return $multi(result as AnyTable, undefined);
+    }
+}
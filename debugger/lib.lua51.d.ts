@@ -662,7 +662,7 @@ declare namespace string {
      *   is 1; the default value for `j` is `i`. Note that numerical codes are not necessarily portable across
      *   platforms.
     */
-    export function byte(this: void, s: string, i?: string, j?: string): LuaMultiReturn<number[]>;
+    export function byte(this: void, s: string, i?: number, j?: number): LuaMultiReturn<number[]>;
 
     /**
      * Receives zero or more integers. Returns a string with length equal to the number of arguments, in which each
@@ -1433,11 +1433,13 @@ declare namespace debug {
         source?: string;
         currentline?: number;
         nups?: number;
+        nparams?: number;
+        isvararg?: boolean;
         linedefined?: number;
         lastlinedefined?: number;
         short_src?: string;
         func?: Function;
-        activelines?: number[];
+        activelines?: { [line: number]: boolean | undefined };
     }
 
     /**
@@ -1663,7 +1665,7 @@ declare interface String {
      *   is 1; the default value for `j` is `i`. Note that numerical codes are not necessarily portable across
      *   platforms.
     */
-    byte(this: this, i?: string, j?: string): LuaMultiReturn<number[]>;
+    byte(this: this, i?: number, j?: number): LuaMultiReturn<number[]>;
 
     /**
      * Looks for the first match of `pattern` in the string `s`. If it finds a match, then `find` returns the indices of
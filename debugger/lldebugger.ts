@@ -22,6 +22,7 @@
 
 import {luaAssert, loadLuaFile} from "./luafuncs";
 import {Debugger} from "./debugger";
+import {Socket} from "./socket";
 
 //Set global reference by directly accessing self from TSTL exports variable
 declare const ____exports: unknown;
@@ -45,6 +46,45 @@ export function start(breakImmediately?: boolean): void {
     Debugger.debugGlobal(breakImmediately);
 }
 
+//Wait for the debug adapter to attach on the specified port and start debugger globally. Returns false if it didn't
+//attach before the timeout.
+export function listen(port: unknown, breakImmediately?: boolean, host?: unknown, timeout?: unknown): boolean {
+    if (typeof port !== "number") {
+        throw `expected number as first argument to listen, but got '${type(port)}'`;
+    }
+    if (breakImmediately !== undefined && typeof breakImmediately !== "boolean") {
+        throw `expected boolean as second argument to listen, but got '${type(breakImmediately)}'`;
+    }
+    if (host !== undefined && typeof host !== "string") {
+        throw `expected string as third argument to listen, but got '${type(host)}'`;
+    }
+    if (timeout !== undefined && typeof timeout !== "number") {
+        throw `expected number as fourth argument to listen, but got '${type(timeout)}'`;
+    }
+    const stream = Socket.listen(host ?? "127.0.0.1", port, timeout);
+    if (!stream) {
+        return false;
+    }
+    Debugger.attach(stream);
+    Debugger.debugGlobal(breakImmediately ?? true);
+    return true;
+}
+
+//Connect to a listening debug adapter and start debugger globally
+export function connect(host: unknown, port: unknown, breakImmediately?: boolean): void {
+    if (typeof host !== "string") {
+        throw `expected string as first argument to connect, but got '${type(host)}'`;
+    }
+    if (typeof port !== "number") {
+        throw `expected number as second argument to connect, but got '${type(port)}'`;
+    }
+    if (breakImmediately !== undefined && typeof breakImmediately !== "boolean") {
+        throw `expected boolean as third argument to connect, but got '${type(breakImmediately)}'`;
+    }
+    Debugger.attach(Socket.connect(host, port));
+    Debugger.debugGlobal(breakImmediately ?? true);
+}
+
 //Stop debugging currently debugged function
 export function finish(): void {
     Debugger.popHook();
@@ -47,6 +47,15 @@ export const luaCoroutineWrap = coroutine.wrap;
 export const luaDebugTraceback = debug.traceback;
 export const luaCoroutineCreate = coroutine.create;
 export const luaCoroutineResume = coroutine.resume;
+export const luaLoad = load;
+export const luaLoadString = loadstring as typeof loadstring | undefined;
+
+export const luaUpvalueId = (debug as typeof debug & {
+    upvalueid?: (this: void, f: unknown, n: number) => unknown;
+}).upvalueid;
+
+//LuaJIT has a single hook shared by every coroutine, so setting one on a coroutine replaces the debugger's own
+export const luaThreadHooksSupported = type((_G as Record<string, unknown>).jit) !== "table";
 
 export const luaLenMetamethodSupported = (() => (setmetatable({}, {__len: () => 42}) as unknown[]).length === 42)();
 
@@ -68,6 +77,12 @@ export const luaRawLen = rawlen ?? function<T extends AnyTable>(v: T | string):
     }
 };
 
+//NaN is the only value not equal to itself
+export function luaIsNaN(value: unknown): boolean {
+    // eslint-disable-next-line no-self-compare
+    return typeof value === "number" && value !== value;
+}
+
 export interface Env {
     [name: string]: unknown;
 }
@@ -78,14 +93,14 @@ export function loadLuaString(
 ): LuaMultiReturn<[{ (this: void): LuaMultiReturn<unknown[]> }, undefined] | [undefined, string]> {
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     if (setfenv !== undefined) {
-        const [f, e] = loadstring(str, str);
+        const [f, e] = luaAssert(luaLoadString)(str, str);
         if (f && env) {
             setfenv(f, env);
         }
         return $multi(f as { (this: void): LuaMultiReturn<unknown[]> }, e as undefined);
 
     } else {
-        return load(str, str, "t", env);
+        return luaLoad(str, str, "t", env);
     }
 }
 
@@ -106,19 +121,14 @@ export function loadLuaFile(
     }
 }
 
-export function luaGetEnv(level: number, thread?: LuaThread): Env | undefined {
-    const info = thread && debug.getinfo(thread, level, "f") || debug.getinfo(level + 1, "f");
-    if (!info || !info.func) {
-        return;
-    }
-
+export function luaGetFunctionEnv(func: Exclude<debug.FunctionInfo["func"], undefined>): Env | undefined {
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     if (getfenv !== undefined) {
-        return getfenv(info.func) as Env | undefined;
+        return getfenv(func) as Env | undefined;
     } else {
         let i = 1;
         while (true) {
-            const [name, value] = debug.getupvalue(info.func, i);
+            const [name, value] = debug.getupvalue(func, i);
             if (!name) {
                 break;
             }
@@ -129,3 +139,11 @@ export function luaGetEnv(level: number, thread?: LuaThread): Env | undefined {
         }
     }
 }
+
+export function luaGetEnv(level: number, thread?: LuaThread): Env | undefined {
+    const info = thread && debug.getinfo(thread, level, "f") || debug.getinfo(level + 1, "f");
+    if (!info || !info.func) {
+        return;
+    }
+    return luaGetFunctionEnv(info.func);
+}
@@ -33,7 +33,7 @@ declare namespace LuaDebug {
     interface DebugBreak extends MessageBase {
         type: "debugBreak";
         message: string;
-        breakType: "step" | "breakpoint" | "error";
+        breakType: "step" | "breakpoint" | "data" | "error" | "pause";
         threadId: number;
     }
 
@@ -49,6 +49,9 @@ declare namespace LuaDebug {
         func?: string;
         active?: boolean;
         mappedLocation?: MappedLocation;
+        sourceId?: number;
+        funcId?: number;
+        pc?: number;
     }
 
     interface Stack extends MessageBase {
@@ -61,15 +64,18 @@ declare namespace LuaDebug {
         value?: string;
         length?: number;
         error?: string;
+        handle?: number;
     }
 
     interface Variable extends Value {
         name: string;
+        keyHandle?: number;
     }
 
     interface Variables extends MessageBase {
         type: "variables";
         variables: Variable[];
+        namedCount?: number;
     }
 
     interface Properties extends MessageBase {
@@ -77,6 +83,41 @@ declare namespace LuaDebug {
         properties: Variable[];
         metatable?: Value;
         length?: Value;
+        namedCount?: number;
+        inherits?: boolean;
+    }
+
+    //A field found through a table's chain of __index tables, and the class table it was found in
+    interface InheritedVariable extends Variable {
+        owner: string;
+        ownerHandle: number;
+    }
+
+    interface InheritedProperties extends MessageBase {
+        type: "inheritedProperties";
+        properties: InheritedVariable[];
+    }
+
+    interface Upvalue extends Variable {
+        index: number;
+        id?: string;
+    }
+
+    interface FunctionDefinition {
+        source: string;
+        sourceId?: number;
+        line: number;
+        lastLine: number;
+        mappedLocation?: MappedLocation;
+    }
+
+    interface FunctionProperties extends MessageBase {
+        type: "functionProperties";
+        upvalues: Upvalue[];
+        environment?: Value;
+        parameters?: number;
+        isVararg?: boolean;
+        definition?: FunctionDefinition;
     }
 
     interface Result extends MessageBase {
@@ -85,10 +126,16 @@ declare namespace LuaDebug {
     }
 
     interface Breakpoint {
+        id: number;
         line: number;
         file: string;
         enabled: boolean;
+        verified: boolean;
+        message?: string;
         condition?: string;
+        hitCondition?: string;
+        hitCount: number;
+        logMessage?: string;
     }
 
     interface Breakpoints extends MessageBase {
@@ -96,6 +143,121 @@ declare namespace LuaDebug {
         breakpoints: Breakpoint[];
     }
 
+    interface BreakpointUpdate extends MessageBase {
+        type: "breakpointUpdate";
+        breakpoint: Breakpoint;
+    }
+
+    interface FunctionBreakpoint {
+        name: string;
+        enabled: boolean;
+        condition?: string;
+    }
+
+    interface FunctionBreakpoints extends MessageBase {
+        type: "functionBreakpoints";
+        breakpoints: FunctionBreakpoint[];
+    }
+
+    interface Completion {
+        name: string;
+        kind: "local" | "upvalue" | "global" | "field";
+        type: string;
+    }
+
+    interface Completions extends MessageBase {
+        type: "completions";
+        completions: Completion[];
+    }
+
+    interface DataBreakpoint {
+        id: string;
+        description: string;
+        enabled: boolean;
+        condition?: string;
+    }
+
+    interface DataBreakpoints extends MessageBase {
+        type: "dataBreakpoints";
+        breakpoints: DataBreakpoint[];
+    }
+
+    interface DataBreakpointInfo extends MessageBase {
+        type: "dataBreakpointInfo";
+        dataId: string;
+        description: string;
+    }
+
+    type ErrorKind = "runtime" | "error" | "assert" | "coroutine";
+
+    interface ExceptionFilter {
+        kind: ErrorKind;
+        pattern?: string;
+    }
+
+    interface ExceptionFilters extends MessageBase {
+        type: "exceptionFilters";
+        filters: ExceptionFilter[];
+    }
+
+    interface LoadedSource extends MessageBase {
+        type: "loadedSource";
+        name: string;
+        path?: string;
+        mappedPaths?: string[];
+        sourceId?: number;
+    }
+
+    type LiteralFormat = "lua" | "json";
+
+    interface Literal extends MessageBase {
+        type: "literal";
+        text: string;
+    }
+
+    interface Chunk extends MessageBase {
+        type: "chunk";
+        text: string;
+    }
+
+    interface ActiveLines extends MessageBase {
+        type: "activeLines";
+        lines: number[];
+    }
+
+    interface StepInTarget {
+        name: string;
+        line?: number;
+        column?: number;
+    }
+
+    interface StepInTargets extends MessageBase {
+        type: "stepInTargets";
+        targets: StepInTarget[];
+    }
+
+    interface Instruction {
+        pc: number;
+        opcode: string;
+        operands: string;
+        line?: number;
+        comment?: string;
+    }
+
+    interface Disassembly extends MessageBase {
+        type: "disassembly";
+        source: string;
+        sourceId?: number;
+        instructions: Instruction[];
+    }
+
+    interface Log extends MessageBase {
+        type: "log";
+        message: string;
+        file: string;
+        line: number;
+    }
+
     interface Thread {
         name: string;
         id: number;
@@ -107,16 +269,45 @@ declare namespace LuaDebug {
         threads: Thread[];
     }
 
-    type Message = Error | DebugBreak | Result | Stack | Variables | Properties | Breakpoints | Threads;
+    type Message =
+        Error
+        | DebugBreak
+        | Result
+        | Stack
+        | Variables
+        | Properties
+        | InheritedProperties
+        | FunctionProperties
+        | Breakpoints
+        | BreakpointUpdate
+        | Completions
+        | FunctionBreakpoints
+        | DataBreakpoints
+        | DataBreakpointInfo
+        | ExceptionFilters
+        | Log
+        | LoadedSource
+        | Chunk
+        | Disassembly
+        | ActiveLines
+        | StepInTargets
+        | Literal
+        | Threads;
 
     type StartToken = "@lldbg|";
     type EndToken = "|lldbg@";
 
     type MetatableAccessor = "lldbg_getmetatable";
+    type UpvalueAccessor = "lldbg_getupvalue";
+    type EnvironmentAccessor = "lldbg_getfenv";
+    type HandleAccessor = "lldbg_handle";
 
     type ScriptRootsEnv = "LOCAL_LUA_DEBUGGER_SCRIPT_ROOTS";
     type BreakInCoroutinesEnv = "LOCAL_LUA_DEBUGGER_BREAK_IN_COROUTINES";
     type StepUnmappedLinesEnv = "LOCAL_LUA_DEBUGGER_STEP_UNMAPPED_LINES";
     type InputFileEnv = "LOCAL_LUA_DEBUGGER_INPUT_FILE";
     type OutputFileEnv = "LOCAL_LUA_DEBUGGER_OUTPUT_FILE";
+    type SocketEnv = "LOCAL_LUA_DEBUGGER_SOCKET";
+    type SocketTokenEnv = "LOCAL_LUA_DEBUGGER_SOCKET_TOKEN";
+    type PauseFileEnv = "LOCAL_LUA_DEBUGGER_PAUSE_FILE";
 }
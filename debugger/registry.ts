@@ -0,0 +1,54 @@
+//MIT License
+//
+//Copyright (c) 2020 Tom Blind
+//
+//Permission is hereby granted, free of charge, to any person obtaining a copy
+//of this software and associated documentation files (the "Software"), to deal
+//in the Software without restriction, including without limitation the rights
+//to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//copies of the Software, and to permit persons to whom the Software is
+//furnished to do so, subject to the following conditions:
+//
+//The above copyright notice and this permission notice shall be included in all
+//copies or substantial portions of the Software.
+//
+//THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+//SOFTWARE.
+
+
+//Values shown to the client while stopped, so they can be found again by id instead of re-evaluating expressions
+export namespace Registry {
+    //Held strongly while stopped, since results of expressions like "{...}" may have no other references
+    let values = new LuaTable<number, unknown>();
+    let ids = new LuaTable<AnyNotNil, number | undefined>();
+
+    //Ids aren't reused, so handles from a previous stop can't find the wrong value
+    let nextId = 1;
+
+    export function add(value: AnyNotNil): number {
+        let id = ids.get(value);
+        if (id === undefined) {
+            id = nextId;
+            ++nextId;
+            values.set(id, value);
+            ids.set(value, id);
+        }
+        return id;
+    }
+
+    //Returns undefined if the id is from a previous stop
+    export function get(id: number): unknown {
+        return values.get(id);
+    }
+
+    //Values only keep their ids until the program resumes, so they can be collected while it runs
+    export function clear(): void {
+        values = new LuaTable<number, unknown>();
+        ids = new LuaTable<AnyNotNil, number | undefined>();
+    }
+}
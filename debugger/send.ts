@@ -20,11 +20,15 @@
 //OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 //SOFTWARE.
 
-import {luaError, luaLenMetamethodSupported, luaRawLen} from "./luafuncs";
+import {luaAssert, luaError, luaLenMetamethodSupported, luaRawLen, luaUpvalueId, luaGetFunctionEnv} from "./luafuncs";
 import {Format} from "./format";
 import {Vars} from "./debugger";
 import {Thread, mainThread, mainThreadName} from "./thread";
 import {Breakpoint} from "./breakpoint";
+import {Bytecode} from "./bytecode";
+import {Formatter} from "./formatter";
+import {Registry} from "./registry";
+import {DebugStream, Socket} from "./socket";
 
 export namespace Send {
     const startToken: LuaDebug.StartToken = "@lldbg|";
@@ -32,27 +36,114 @@ export namespace Send {
 
     const outputFileEnv: LuaDebug.OutputFileEnv = "LOCAL_LUA_DEBUGGER_OUTPUT_FILE";
     const outputFilePath = os.getenv(outputFileEnv);
-    let outputFile: LuaFile;
-    if (outputFilePath && outputFilePath.length > 0) {
+    const sessionStream = Socket.getSessionStream();
+    let outputFile: DebugStream;
+    if (sessionStream) {
+        outputFile = sessionStream;
+    } else if (outputFilePath && outputFilePath.length > 0) {
         const [file, err] = io.open(outputFilePath, "w+");
         if (!file) {
             luaError(`Failed to open output file "${outputFilePath}": ${err}\n`);
         }
+        (file as LuaFile).setvbuf("no");
         outputFile = file as LuaFile;
-        outputFile.setvbuf("no");
     } else {
         outputFile = io.stdout;
     }
 
+    export function setOutput(stream: DebugStream): void {
+        outputFile = stream;
+    }
+
+    //Format specifiers given with a command, like "x" for hex or "count=20" to limit the fields shown
+    interface ValueFormat {
+        hex?: boolean;
+        binary?: boolean;
+        precision?: number;
+        raw?: boolean;
+        count?: number;
+    }
+
+    let valueFormat: ValueFormat = {};
+
+    //Integers beyond this can't be held exactly by doubles, so they're left as they are
+    const maxExactInteger = 2 ** 53;
+
+    export function setValueFormat(specifiers?: string): void {
+        valueFormat = {};
+        if (specifiers === undefined) {
+            return;
+        }
+        for (const [specifier] of specifiers.gmatch("[^,]+")) {
+            const [precision] = specifier.match("^(%d+)g$");
+            const [count] = specifier.match("^count=(%d+)$");
+            if (specifier === "x") {
+                valueFormat.hex = true;
+            } else if (specifier === "b") {
+                valueFormat.binary = true;
+            } else if (specifier === "raw") {
+                valueFormat.raw = true;
+            } else if (precision !== undefined) {
+                valueFormat.precision = tonumber(precision);
+            } else if (count !== undefined) {
+                valueFormat.count = tonumber(count);
+            }
+        }
+    }
+
+    function formatInteger(value: number, base: number, prefix: string) {
+        const digitChars = "0123456789ABCDEF";
+        let remaining = math.abs(value);
+        let digits = "";
+        do {
+            const digit = remaining % base;
+            digits = digitChars.sub(digit + 1, digit + 1) + digits;
+            remaining = (remaining - digit) / base;
+        } while (remaining > 0);
+        return `${value < 0 ? "-" : ""}${prefix}${digits}`;
+    }
+
+    function formatNumber(value: number) {
+        if ((valueFormat.hex || valueFormat.binary)
+            && value === math.floor(value)
+            && math.abs(value) < maxExactInteger
+        ) {
+            return valueFormat.hex ? formatInteger(value, 16, "0x") : formatInteger(value, 2, "0b");
+        } else if (valueFormat.precision !== undefined) {
+            return string.format(`%.${valueFormat.precision}g`, value);
+        }
+        return tostring(value);
+    }
+
+    //Get a value's string without calling __tostring. The address of a value with __tostring can't be found without
+    //changing its metatable, so only its type is shown.
+    function rawToString(value: unknown) {
+        const mt = debug.getmetatable(value) as Record<string, unknown> | undefined;
+        if (mt === undefined || rawget(mt, "__tostring") === undefined) {
+            return tostring(value);
+        }
+        return type(value);
+    }
+
     function getPrintableValue(value: unknown) {
         const valueType = type(value);
         if (valueType === "string") {
             return `"${value}"`;
 
-        } else if (valueType === "number" || valueType === "boolean" || valueType === "nil") {
+        } else if (valueType === "number") {
+            return formatNumber(value as number);
+
+        } else if (valueType === "boolean" || valueType === "nil") {
             return tostring(value);
 
+        } else if (valueFormat.raw) {
+            return `[${rawToString(value)}]`;
+
         } else {
+            const formatted = Formatter.display(value);
+            if (formatted !== undefined) {
+                return formatted;
+            }
             const [_, str] = pcall(tostring, value);
             const strType = type(str);
             if (strType !== "string") {
@@ -62,24 +153,156 @@ export namespace Send {
         }
     }
 
+    //Keys are used to build evaluate names, so they're always kept as valid Lua
+    function getPrintableKey(key: unknown) {
+        if (type(key) === "number") {
+            return tostring(key);
+        }
+        return getPrintableValue(key);
+    }
+
+    //Formatters are bypassed when raw values are asked for
+    function getChildren(value: unknown) {
+        if (valueFormat.raw) {
+            return $multi(undefined, undefined);
+        }
+        return Formatter.children(value);
+    }
+
+    //List a table's keys with next, since pairs calls __pairs
+    function getRawKeys(tbl: AnyTable) {
+        const keys: unknown[] = [];
+        let [key] = next(tbl);
+        while (key !== undefined) {
+            table.insert(keys, key);
+            [key] = next(tbl, key);
+        }
+        return keys;
+    }
+
+    //Values are kept from pairs, since __pairs can list fields which aren't actually in the table
+    function getFields(tbl: AnyTable): LuaMultiReturn<[unknown[], LuaTable<AnyNotNil, unknown>]> {
+        const keys: unknown[] = [];
+        const values = new LuaTable<AnyNotNil, unknown>();
+        if (valueFormat.raw) {
+            for (const key of getRawKeys(tbl)) {
+                table.insert(keys, key);
+                values.set(key as AnyNotNil, rawget(tbl, key as AnyNotNil));
+            }
+        } else {
+            for (const [key, val] of pairs(tbl)) {
+                table.insert(keys, key);
+                values.set(key, val);
+            }
+        }
+        return $multi(keys, values);
+    }
+
     function isElementKey(tbl: AnyTable, tblLen: number, key: unknown) {
         return typeof key === "number" && key >= 1 && key <= tblLen;
     }
 
+    //Tables with more named keys than this only send their count, and their keys are fetched in pages
+    const maxUnpagedKeys = 1000;
+
+    //Sorting is the slow part of paging, so each table's keys are kept until its keys change
+    interface SortedKeys {
+        named: boolean;
+        keys: unknown[];
+    }
+
+    const sortedKeysCache = setmetatable(new LuaTable<AnyTable, SortedKeys | undefined>(), {__mode: "k"});
+
+    function hasSameKeys(cachedKeys: unknown[], keys: unknown[]) {
+        if (cachedKeys.length !== keys.length) {
+            return false;
+        }
+        const keySet = new LuaTable<AnyNotNil, boolean | undefined>();
+        for (const key of keys) {
+            keySet.set(key as AnyNotNil, true);
+        }
+        for (const key of cachedKeys) {
+            if (keySet.get(key as AnyNotNil) === undefined) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function getSortedKeys(tbl: AnyTable, keys: unknown[], named: boolean) {
+        const cached = sortedKeysCache.get(tbl);
+        if (cached !== undefined && cached.named === named && hasSameKeys(cached.keys, keys)) {
+            return cached.keys;
+        }
+        Format.sortKeys(keys);
+        sortedKeysCache.set(tbl, {named, keys});
+        return keys;
+    }
+
+    //Pages start at 1, like array indices
+    function getPage<T>(keys: T[], first: number, count?: number) {
+        const page: T[] = [];
+        const last = count !== undefined ? math.min(first + count - 1, keys.length) : keys.length;
+        for (const i of $range(first, last)) {
+            table.insert(page, keys[i - 1]);
+        }
+        return page;
+    }
+
+    //Values which can be expanded get a handle, so the client can find them again without re-evaluating anything
+    function buildValue(value: unknown) {
+        const valueType = type(value);
+        const dbgValue: LuaDebug.Value = {type: valueType, value: getPrintableValue(value)};
+        if (valueType === "table" || valueType === "function") {
+            dbgValue.handle = Registry.add(value as AnyNotNil);
+        }
+        return dbgValue;
+    }
+
     function buildVariable(name: string, value: unknown) {
-        const dbgVar: LuaDebug.Variable = {
-            type: type(value),
-            name,
-            value: getPrintableValue(value)
-        };
+        const dbgVar = buildValue(value) as LuaDebug.Variable;
+        dbgVar.name = name;
 
-        if (typeof value === "object") {
+        //Children from a formatter aren't found until the value is expanded, so their count isn't known yet
+        if (typeof value === "object" && (valueFormat.raw || !Formatter.hasChildren(value))) {
             dbgVar.length = luaRawLen(value as AnyTable);
+            if (valueFormat.count !== undefined && dbgVar.length > valueFormat.count) {
+                dbgVar.length = valueFormat.count;
+            }
         }
 
         return dbgVar;
     }
 
+    //Classes are tables set as a metatable's __index, found without invoking any metamethods
+    function getIndexTable(tbl: AnyTable): LuaMultiReturn<[AnyTable, AnyTable] | [undefined, undefined]> {
+        const meta = debug.getmetatable(tbl) as AnyTable | undefined;
+        if (meta === undefined) {
+            return $multi(undefined, undefined);
+        }
+        const index = rawget(meta as Record<string, unknown>, "__index");
+        if (type(index) !== "table") {
+            return $multi(undefined, undefined);
+        }
+        return $multi(index as AnyTable, meta);
+    }
+
+    //Name a class by the __name of its metatable or itself, or else by the global it's stored in
+    function getClassName(index: AnyTable, meta: AnyTable) {
+        for (const named of [meta, index]) {
+            const name = rawget(named as Record<string, unknown>, "__name");
+            if (type(name) === "string") {
+                return name as string;
+            }
+        }
+        for (const [key, val] of pairs(_G)) {
+            if (rawequal(val, index) && type(key) === "string") {
+                return key;
+            }
+        }
+        return rawToString(index);
+    }
+
     function buildVarArgs(name: string, values: unknown[]): LuaDebug.Variable {
         const valueStrs: string[] = [];
         for (const [_, val] of ipairs(values)) {
@@ -102,10 +325,70 @@ export namespace Send {
         send(dbgBreak);
     }
 
+    export function log(message: string, file: string, line: number): void {
+        const dbgLog: LuaDebug.Log = {tag: "$luaDebug", type: "log", message, file, line};
+        send(dbgLog);
+    }
+
+    export function loadedSource(name: string, path?: string, mappedPaths?: string[], sourceId?: number): void {
+        const dbgSource: LuaDebug.LoadedSource = {
+            tag: "$luaDebug",
+            type: "loadedSource",
+            name,
+            path,
+            mappedPaths: mappedPaths && Format.makeExplicitArray(mappedPaths),
+            sourceId
+        };
+        send(dbgSource);
+    }
+
+    export function literal(text: string): void {
+        const dbgLiteral: LuaDebug.Literal = {tag: "$luaDebug", type: "literal", text};
+        send(dbgLiteral);
+    }
+
+    export function chunk(text: string): void {
+        const dbgChunk: LuaDebug.Chunk = {tag: "$luaDebug", type: "chunk", text};
+        send(dbgChunk);
+    }
+
+    export function activeLines(lines: number[]): void {
+        const dbgActiveLines: LuaDebug.ActiveLines = {
+            tag: "$luaDebug",
+            type: "activeLines",
+            lines: Format.makeExplicitArray(lines)
+        };
+        send(dbgActiveLines);
+    }
+
+    export function stepInTargets(targets: LuaDebug.StepInTarget[]): void {
+        const dbgStepInTargets: LuaDebug.StepInTargets = {
+            tag: "$luaDebug",
+            type: "stepInTargets",
+            targets: Format.makeExplicitArray(targets)
+        };
+        send(dbgStepInTargets);
+    }
+
+    export function disassembly(
+        source: string,
+        sourceId: number | undefined,
+        instructions: LuaDebug.Instruction[]
+    ): void {
+        const dbgDisassembly: LuaDebug.Disassembly = {
+            tag: "$luaDebug",
+            type: "disassembly",
+            source,
+            sourceId,
+            instructions: Format.makeExplicitArray(instructions)
+        };
+        send(dbgDisassembly);
+    }
+
     export function result(...values: unknown[]): void {
         const results: LuaDebug.Value[] = Format.makeExplicitArray();
         for (const value of values) {
-            table.insert(results, {type: type(value), value: getPrintableValue(value)});
+            table.insert(results, buildValue(value));
         }
         const dbgResult: LuaDebug.Result = {tag: "$luaDebug", type: "result", results};
         send(dbgResult);
@@ -135,51 +418,172 @@ export namespace Send {
         send(dbgThreads);
     }
 
-    export function vars(varsObj: Vars): void {
+    export function vars(varsObj: Vars, first?: number, count?: number): void {
         const dbgVariables: LuaDebug.Variables = {
             tag: "$luaDebug",
             type: "variables",
             variables: Format.makeExplicitArray()
         };
-        for (const [name, info] of pairs(varsObj)) {
+        let names: string[] = [];
+        for (const [name] of pairs(varsObj)) {
+            table.insert(names, name);
+        }
+        if (first !== undefined) {
+            dbgVariables.namedCount = names.length;
+            names = getPage(Format.sortKeys(names) as string[], first, count);
+        } else if (names.length > maxUnpagedKeys) {
+            dbgVariables.namedCount = names.length;
+            names = [];
+        }
+        for (const name of names) {
+            const info = luaAssert(varsObj[name]);
             const dbgVar = name === "..." ? buildVarArgs(name, info.val as unknown[]) : buildVariable(name, info.val);
             table.insert(dbgVariables.variables, dbgVar);
         }
         send(dbgVariables);
     }
 
+    function getUpvalueId(func: Bytecode.LuaFunction, index: number) {
+        if (luaUpvalueId === undefined) {
+            return undefined;
+        }
+        const [success, id] = pcall(luaUpvalueId, func, index);
+        if (!success) {
+            return undefined;
+        }
+        const idStr = tostring(id);
+        const [address] = idStr.match("0x%x+");
+        return address ?? idStr;
+    }
+
+    export function functionProps(
+        func: Bytecode.LuaFunction,
+        definition?: LuaDebug.FunctionDefinition,
+        parameters?: number,
+        isVararg?: boolean
+    ): void {
+        const dbgProperties: LuaDebug.FunctionProperties = {
+            tag: "$luaDebug",
+            type: "functionProperties",
+            upvalues: Format.makeExplicitArray(),
+            parameters,
+            isVararg,
+            definition
+        };
+
+        //_ENV is shown as the environment instead
+        let index = 1;
+        while (true) {
+            const [name, val] = debug.getupvalue(func, index);
+            if (name === undefined) {
+                break;
+            }
+            if (name !== "_ENV") {
+                const dbgUpvalue = buildVariable(name, val) as LuaDebug.Upvalue;
+                dbgUpvalue.index = index;
+                dbgUpvalue.id = getUpvalueId(func, index);
+                table.insert(dbgProperties.upvalues, dbgUpvalue);
+            }
+            ++index;
+        }
+
+        const env = luaGetFunctionEnv(func);
+        if (env !== undefined) {
+            dbgProperties.environment = buildValue(env);
+        }
+        send(dbgProperties);
+    }
+
+    export function completions(completionList: LuaDebug.Completion[]): void {
+        const dbgCompletions: LuaDebug.Completions = {
+            tag: "$luaDebug",
+            type: "completions",
+            completions: Format.makeExplicitArray(completionList)
+        };
+        send(dbgCompletions);
+    }
+
     export function props(tbl: AnyTable, kind?: string, first?: number, count?: number): void {
         const dbgProperties: LuaDebug.Properties = {
             tag: "$luaDebug",
             type: "properties",
             properties: Format.makeExplicitArray()
         };
+
+        //Formatted values only show the children their formatter gives them
+        const [children, childrenErr] = getChildren(tbl);
+        if (childrenErr !== undefined) {
+            error(childrenErr);
+            return;
+        }
+        const isFormatted = children !== undefined;
+        tbl = children ?? tbl;
+
         if (kind === "indexed") {
             first ??= 1;
-            const last = count ? (first + count - 1) : (first + luaRawLen(tbl) - 1);
+            let last = count ? (first + count - 1) : (first + luaRawLen(tbl) - 1);
+            if (valueFormat.count !== undefined) {
+                last = math.min(last, first + valueFormat.count - 1);
+            }
             for (const i of $range(first, last)) {
-                const val = (tbl as Record<string, unknown>)[i];
-                const name = getPrintableValue(i);
+                const val = valueFormat.raw
+                    ? rawget(tbl as Record<string, unknown>, i as unknown as string)
+                    : (tbl as Record<string, unknown>)[i];
+                const name = getPrintableKey(i);
                 const dbgVar = buildVariable(name, val);
                 table.insert(dbgProperties.properties, dbgVar);
             }
 
         } else {
             const len = luaRawLen(tbl);
-            for (const [key, val] of pairs(tbl)) {
+            const keys: unknown[] = [];
+            const [fieldKeys, values] = getFields(tbl);
+            for (const key of fieldKeys) {
                 if (kind !== "named" || !isElementKey(tbl, len, key)) {
-                    const name = getPrintableValue(key);
-                    const dbgVar = buildVariable(name, val);
-                    table.insert(dbgProperties.properties, dbgVar);
+                    table.insert(keys, key);
                 }
             }
 
+            let pageKeys = keys;
+            if (first !== undefined) {
+                dbgProperties.namedCount = keys.length;
+                pageKeys = getPage(getSortedKeys(tbl, keys, kind === "named"), first, count);
+            } else if (keys.length > maxUnpagedKeys && valueFormat.count === undefined) {
+                dbgProperties.namedCount = keys.length;
+                pageKeys = [];
+            }
+
+            for (const key of pageKeys) {
+                if (valueFormat.count !== undefined && dbgProperties.properties.length >= valueFormat.count) {
+                    break;
+                }
+                const name = getPrintableKey(key);
+                const dbgVar = buildVariable(name, values.get(key as AnyNotNil));
+                if (type(key) !== "number") {
+                    dbgVar.keyHandle = Registry.add(key as AnyNotNil);
+                }
+                table.insert(dbgProperties.properties, dbgVar);
+            }
+
+            //Pages only hold fields, since the table's metatable and length are shown alongside the pages
+            if (isFormatted || first !== undefined) {
+                send(dbgProperties);
+                return;
+            }
+
             const meta = getmetatable(tbl);
             if (meta) {
-                dbgProperties.metatable = {type: type(meta), value: getPrintableValue(meta)};
+                dbgProperties.metatable = buildValue(meta);
+            }
+            const [index] = getIndexTable(tbl);
+            if (index !== undefined) {
+                dbgProperties.inherits = true;
             }
 
-            const [lenStatus, tblLen] = pcall(() => (tbl as unknown[]).length as unknown);
+            //Raw values skip __len, which could have side effects
+            const [lenStatus, tblLen] = pcall(
+                () => (valueFormat.raw ? luaRawLen(tbl) : (tbl as unknown[]).length) as unknown
+            );
             if (!lenStatus) {
                 dbgProperties.length = {type: type(tblLen), error: tblLen as string};
             } else if (tblLen !== 0) {
@@ -187,7 +591,7 @@ export namespace Send {
             } else {
                 const mt = debug.getmetatable(tbl);
                 if (
-                    (!mt && dbgProperties.properties.length === 0)
+                    (!mt && keys.length === 0)
                     || (mt && luaLenMetamethodSupported && (mt as {__len?: unknown}).__len)
                 ) {
                     dbgProperties.length = {type: type(tblLen), value: tostring(tblLen)};
@@ -197,27 +601,141 @@ export namespace Send {
         send(dbgProperties);
     }
 
+    //Fields inherited through a table's chain of __index tables, skipping any shadowed by a nearer class
+    export function inheritedProps(tbl: AnyTable): void {
+        const dbgProperties: LuaDebug.InheritedProperties = {
+            tag: "$luaDebug",
+            type: "inheritedProperties",
+            properties: Format.makeExplicitArray()
+        };
+        const shadowed = new LuaTable<AnyNotNil, boolean | undefined>();
+        for (const key of getRawKeys(tbl)) {
+            shadowed.set(key as AnyNotNil, true);
+        }
+        const visited = new LuaTable<AnyTable, boolean | undefined>();
+        visited.set(tbl, true);
+        let [index, meta] = getIndexTable(tbl);
+        while (index !== undefined && meta !== undefined && visited.get(index) === undefined) {
+            visited.set(index, true);
+            const owner = getClassName(index, meta);
+            const ownerHandle = Registry.add(index);
+            for (const key of getRawKeys(index)) {
+                const val = rawget(index as Record<string, unknown>, key as string);
+                if (shadowed.get(key as AnyNotNil) === undefined
+                    && (valueFormat.count === undefined || dbgProperties.properties.length < valueFormat.count)
+                ) {
+                    shadowed.set(key as AnyNotNil, true);
+                    const dbgVar = buildVariable(getPrintableKey(key), val) as LuaDebug.InheritedVariable;
+                    dbgVar.owner = owner;
+                    dbgVar.ownerHandle = ownerHandle;
+                    if (type(key) !== "number") {
+                        dbgVar.keyHandle = Registry.add(key as AnyNotNil);
+                    }
+                    table.insert(dbgProperties.properties, dbgVar);
+                }
+            }
+            [index, meta] = getIndexTable(index);
+        }
+        send(dbgProperties);
+    }
+
+    function formatBreakpoint(breakpoint: Breakpoint): LuaDebug.Breakpoint {
+        return {
+            id: breakpoint.id,
+            line: breakpoint.sourceLine || breakpoint.line,
+            file: breakpoint.sourceFile || breakpoint.file,
+            enabled: breakpoint.enabled,
+            verified: breakpoint.verified,
+            message: breakpoint.message,
+            condition: breakpoint.condition,
+            hitCondition: breakpoint.hitCondition,
+            hitCount: breakpoint.hitCount,
+            logMessage: breakpoint.logMessage
+        };
+    }
+
     export function breakpoints(breaks: Breakpoint[]): void {
         const breakpointList: LuaDebug.Breakpoint[] = [];
+        for (const breakpoint of breaks) {
+            table.insert(breakpointList, formatBreakpoint(breakpoint));
+        }
+        const dbgBreakpoints: LuaDebug.Breakpoints = {
+            tag: "$luaDebug",
+            type: "breakpoints",
+            breakpoints: Format.makeExplicitArray(breakpointList)
+        };
+        send(dbgBreakpoints);
+    }
+
+    export function breakpointUpdate(breakpoint: Breakpoint): void {
+        const dbgBreakpointUpdate: LuaDebug.BreakpointUpdate = {
+            tag: "$luaDebug",
+            type: "breakpointUpdate",
+            breakpoint: formatBreakpoint(breakpoint)
+        };
+        send(dbgBreakpointUpdate);
+    }
+
+    export function functionBreakpoints(breaks: LuaDebug.FunctionBreakpoint[]): void {
+        const breakpointList: LuaDebug.FunctionBreakpoint[] = [];
+        for (const breakpoint of breaks) {
+            table.insert(
+                breakpointList,
+                {name: breakpoint.name, condition: breakpoint.condition, enabled: breakpoint.enabled}
+            );
+        }
+        const dbgBreakpoints: LuaDebug.FunctionBreakpoints = {
+            tag: "$luaDebug",
+            type: "functionBreakpoints",
+            breakpoints: Format.makeExplicitArray(breakpointList)
+        };
+        send(dbgBreakpoints);
+    }
+
+    export function dataBreakpoints(breaks: LuaDebug.DataBreakpoint[]): void {
+        const breakpointList: LuaDebug.DataBreakpoint[] = [];
         for (const breakpoint of breaks) {
             table.insert(
                 breakpointList,
                 {
-                    line: breakpoint.sourceLine || breakpoint.line,
-                    file: breakpoint.sourceFile || breakpoint.file,
+                    id: breakpoint.id,
+                    description: breakpoint.description,
                     condition: breakpoint.condition,
                     enabled: breakpoint.enabled
                 }
             );
         }
-        const dbgBreakpoints: LuaDebug.Breakpoints = {
+        const dbgBreakpoints: LuaDebug.DataBreakpoints = {
             tag: "$luaDebug",
-            type: "breakpoints",
+            type: "dataBreakpoints",
             breakpoints: Format.makeExplicitArray(breakpointList)
         };
         send(dbgBreakpoints);
     }
 
+    export function dataBreakpointInfo(dataId: string, description: string): void {
+        const dbgInfo: LuaDebug.DataBreakpointInfo = {
+            tag: "$luaDebug",
+            type: "dataBreakpointInfo",
+            dataId,
+            description
+        };
+        send(dbgInfo);
+    }
+
+    export function exceptionFilters(filters: LuaDebug.ExceptionFilter[]): void {
+        const filterList: LuaDebug.ExceptionFilter[] = [];
+        for (const filter of filters) {
+            table.insert(filterList, {kind: filter.kind, pattern: filter.pattern});
+        }
+        const dbgFilters: LuaDebug.ExceptionFilters = {
+            tag: "$luaDebug",
+            type: "exceptionFilters",
+            filters: Format.makeExplicitArray(filterList)
+        };
+        send(dbgFilters);
+    }
+
     export function help(...helpStrs: Array<[string, string]>): void {
         let nameLength = 0;
         for (const [_, nameAndDesc] of ipairs(helpStrs)) {
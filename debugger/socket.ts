@@ -0,0 +1,140 @@
+//MIT License
+//
+//Copyright (c) 2020 Tom Blind
+//
+//Permission is hereby granted, free of charge, to any person obtaining a copy
+//of this software and associated documentation files (the "Software"), to deal
+//in the Software without restriction, including without limitation the rights
+//to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+//copies of the Software, and to permit persons to whom the Software is
+//furnished to do so, subject to the following conditions:
+//
+//The above copyright notice and this permission notice shall be included in all
+//copies or substantial portions of the Software.
+//
+//THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+//IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+//FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+//AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+//LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+//OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+//SOFTWARE.
+
+import {luaAssert, luaError} from "./luafuncs";
+
+//Subset of LuaFile used for communicating with the debug adapter. Streams which can be checked without blocking
+//have poll, which returns false once the stream has been closed.
+export interface DebugStream {
+    read: (format: "*l") => string | number | undefined;
+    write: (data: string) => unknown;
+    poll?: () => string | false | undefined;
+}
+
+export namespace Socket {
+    interface LuaSocketClient {
+        send: (this: LuaSocketClient, data: string) => LuaMultiReturn<[number, undefined] | [undefined, string]>;
+        receive: (
+            this: LuaSocketClient,
+            pattern: "*l",
+            prefix?: string
+        ) => LuaMultiReturn<[string, undefined, undefined] | [undefined, string, string | undefined]>;
+        settimeout: (this: LuaSocketClient, timeout?: number) => void;
+    }
+
+    interface LuaSocketServer {
+        accept: (this: LuaSocketServer) => LuaMultiReturn<[LuaSocketClient, undefined] | [undefined, string]>;
+        settimeout: (this: LuaSocketServer, timeout?: number) => void;
+        close: (this: LuaSocketServer) => void;
+    }
+
+    interface LuaSocket {
+        connect: (
+            this: void,
+            host: string,
+            port: number
+        ) => LuaMultiReturn<[LuaSocketClient, undefined] | [undefined, string]>;
+        bind: (
+            this: void,
+            host: string,
+            port: number
+        ) => LuaMultiReturn<[LuaSocketServer, undefined] | [undefined, string]>;
+    }
+
+    function requireSocket() {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const [success, socket] = pcall(require, "socket");
+        if (!success) {
+            luaError("LuaSocket is required to attach the debugger over a socket");
+        }
+        return socket as LuaSocket;
+    }
+
+    function wrapClient(client: LuaSocketClient): DebugStream {
+        client.settimeout();
+        let partialLine: string | undefined;
+        return {
+            read(this: DebugStream, format: "*l") {
+                const [line] = client.receive(format, partialLine);
+                partialLine = undefined;
+                return line;
+            },
+            write(this: DebugStream, data: string) {
+                client.send(data);
+            },
+            poll(this: DebugStream) {
+                client.settimeout(0);
+                const [line, err, partial] = client.receive("*l", partialLine);
+                client.settimeout();
+                partialLine = partial;
+                return err === "closed" ? false : line;
+            }
+        };
+    }
+
+    const socketEnv: LuaDebug.SocketEnv = "LOCAL_LUA_DEBUGGER_SOCKET";
+    const socketTokenEnv: LuaDebug.SocketTokenEnv = "LOCAL_LUA_DEBUGGER_SOCKET_TOKEN";
+    let sessionStream: DebugStream | undefined;
+
+    export function connect(host: string, port: number): DebugStream {
+        const [client, err] = requireSocket().connect(host, port);
+        if (!client) {
+            return luaError(`Failed to connect to debugger at ${host}:${port}: ${err}`);
+        }
+        return wrapClient(client);
+    }
+
+    //Wait for the debug adapter to connect, giving up after timeout seconds if one is given
+    export function listen(host: string, port: number, timeout?: number): DebugStream | undefined {
+        const [server, err] = requireSocket().bind(host, port);
+        if (!server) {
+            return luaError(`Failed to listen for debugger on ${host}:${port}: ${err}`);
+        }
+        server.settimeout(timeout);
+        const [client, acceptErr] = server.accept();
+        server.close();
+        if (!client) {
+            if (acceptErr === "timeout") {
+                return undefined;
+            }
+            return luaError(`Failed to accept debugger connection on ${host}:${port}: ${acceptErr}`);
+        }
+        return wrapClient(client);
+    }
+
+    //Connect to the socket opened by the debug adapter when launched with socket communication
+    export function getSessionStream(): DebugStream | undefined {
+        if (!sessionStream) {
+            const address = os.getenv(socketEnv);
+            if (!address || address.length === 0) {
+                return undefined;
+            }
+            const [host, portStr] = address.match("^(.+):(%d+)$");
+            if (!host || !portStr) {
+                return luaError(`Bad debugger socket address "${address}"`);
+            }
+            sessionStream = connect(host, luaAssert(tonumber(portStr)));
+            sessionStream.write(`${os.getenv(socketTokenEnv) ?? ""}\n`);
+        }
+        return sessionStream;
+    }
+}
@@ -200,7 +200,7 @@ export namespace SourceMap {
     const scriptRootsEnv: LuaDebug.ScriptRootsEnv = "LOCAL_LUA_DEBUGGER_SCRIPT_ROOTS";
     let scriptRoots: string[] | undefined;
 
-    function getScriptRoots(): string[] {
+    export function getScriptRoots(): string[] {
         if (!scriptRoots) {
             scriptRoots = [];
             const scriptRootsStr = os.getenv(scriptRootsEnv);
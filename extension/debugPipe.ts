@@ -3,10 +3,13 @@ import * as net from "net";
 import * as childProcess from "child_process";
 import * as fs from "fs";
 
-export interface DebugPipe {
-    open: (onData: (data: unknown) => void, onError: (err: unknown) => void) => void;
+export interface DebugConnection {
+    open: (onData: (data: unknown) => void, onError: (err: unknown) => void, onClose?: () => void) => void;
     close: () => void;
     write: (data: string) => void;
+}
+
+export interface DebugPipe extends DebugConnection {
     getOutputPipePath: () => string;
     getInputPipePath: () => string;
 }
@@ -151,3 +154,148 @@ export function createFifoPipe(): DebugPipe {
         getInputPipePath: () => inputPipePath,
     };
 }
+
+export function createSocketClient(host: string, port: number): DebugConnection {
+    let socket: net.Socket | null = null;
+    return {
+        open: (onData, onError, onClose) => {
+            socket = net.connect(port, host);
+            socket.on("data", onData);
+            socket.on("error", err => onError(`error on socket: ${err}`));
+            socket.on("close", () => onClose?.());
+        },
+
+        close: () => {
+            socket?.end();
+            socket = null;
+        },
+
+        write: data => {
+            socket?.write(data);
+        }
+    };
+}
+
+export function createSocketServer(host: string, port: number): DebugConnection {
+    let server: net.Server | null = null;
+    let socket: net.Socket | null = null;
+    return {
+        open: (onData, onError, onClose) => {
+            server = net.createServer(
+                stream => {
+                    //Only a single debugger connection is accepted
+                    server?.close();
+                    server = null;
+                    socket = stream;
+                    stream.on("data", onData);
+                    stream.on("error", err => onError(`error on socket: ${err}`));
+                    stream.on("close", () => onClose?.());
+                }
+            );
+            server.on("error", err => onError(`error on socket server: ${err}`));
+            server.listen(port, host);
+        },
+
+        close: () => {
+            server?.close();
+            server = null;
+            socket?.end();
+            socket = null;
+        },
+
+        write: data => {
+            socket?.write(data);
+        }
+    };
+}
+
+export interface DebugSocketPipe extends DebugConnection {
+    getAddress: () => Promise<string>;
+    getToken: () => string;
+}
+
+export function createSocketPipe(): DebugSocketPipe {
+    const token = crypto.randomBytes(16).toString("hex");
+    let server: net.Server | null = null;
+    let socket: net.Socket | null = null;
+
+    function isValidToken(received: string) {
+        const receivedBuffer = Buffer.from(received);
+        const tokenBuffer = Buffer.from(token);
+        return receivedBuffer.length === tokenBuffer.length && crypto.timingSafeEqual(receivedBuffer, tokenBuffer);
+    }
+
+    return {
+        open: (onData, onError) => {
+            server = net.createServer(
+                stream => {
+                    stream.on("error", err => onError(`error on socket: ${err}`));
+
+                    //Connection must send the session token before anything else
+                    let received = "";
+                    const onAuthData = (data: Buffer) => {
+                        received += data.toString();
+                        const tokenEnd = received.indexOf("\n");
+                        if (tokenEnd < 0) {
+                            if (received.length > token.length + 1) {
+                                stream.destroy();
+                            }
+                            return;
+                        }
+
+                        stream.removeListener("data", onAuthData);
+                        if (socket !== null || !isValidToken(received.substring(0, tokenEnd).trim())) {
+                            onError("rejected unauthorized socket connection");
+                            stream.destroy();
+                            return;
+                        }
+
+                        server?.close();
+                        server = null;
+                        socket = stream;
+                        stream.on("data", onData);
+                        if (tokenEnd + 1 < received.length) {
+                            onData(received.substring(tokenEnd + 1));
+                        }
+                    };
+                    stream.on("data", onAuthData);
+                }
+            );
+            server.on("error", err => onError(`error on socket server: ${err}`));
+            server.listen(0, "127.0.0.1");
+        },
+
+        close: () => {
+            server?.close();
+            server = null;
+            socket?.destroy();
+            socket = null;
+        },
+
+        write: data => {
+            socket?.write(data);
+        },
+
+        getAddress: () => new Promise(
+            (resolve, reject) => {
+                const listeningServer = server;
+                if (listeningServer === null) {
+                    reject(new Error("socket is not open"));
+                    return;
+                }
+                const resolveAddress = () => {
+                    const address = listeningServer.address() as net.AddressInfo;
+                    resolve(`${address.address}:${address.port}`);
+                };
+                if (listeningServer.listening) {
+                    resolveAddress();
+                } else {
+                    listeningServer.once("listening", resolveAddress);
+                    listeningServer.once("error", reject);
+                }
+            }
+        ),
+
+        getToken: () => token
+    };
+}
@@ -21,15 +21,25 @@
 //SOFTWARE.
 
 import * as vscode from "vscode";
+import {DebugProtocol} from "vscode-debugprotocol";
 import * as Net from "net";
 import * as path from "path";
-import {LuaDebugSession} from "./luaDebugSession";
-import {LaunchConfig, isCustomProgramConfig, LuaProgramConfig} from "./launchConfig";
+import {LuaDebugSession, CopyValueArguments} from "./luaDebugSession";
+import {LaunchConfig, AttachConfig, isCustomProgramConfig, LuaProgramConfig} from "./launchConfig";
 
 const enableServer = true;
 const debuggerType = "lua-local";
 const interpreterSetting = `${debuggerType}.interpreter`;
 
+//Limits on how much of a value is copied, so huge tables don't stall the program
+const copyMaxDepth = 16;
+const copyMaxFields = 10000;
+
+//Passed to commands run from the variables view's context menu
+interface VariableContext {
+    variable: DebugProtocol.Variable;
+}
+
 function abortLaunch(message: string) {
     void vscode.window.showErrorMessage(message);
     // tslint:disable-next-line:no-null-keyword
@@ -39,7 +49,7 @@ function abortLaunch(message: string) {
 const configurationProvider: vscode.DebugConfigurationProvider = {
     async resolveDebugConfiguration(
         folder: vscode.WorkspaceFolder | undefined,
-        config: vscode.DebugConfiguration & Partial<LaunchConfig>,
+        config: vscode.DebugConfiguration & Partial<LaunchConfig & AttachConfig>,
         token?: vscode.CancellationToken
     ): Promise<vscode.DebugConfiguration | null | undefined> {
         //Validate config
@@ -52,7 +62,12 @@ const configurationProvider: vscode.DebugConfigurationProvider = {
             config.type = debuggerType;
         }
 
-        if (typeof config.program === "undefined" || !isCustomProgramConfig(config.program)) {
+        if (config.request === "attach") {
+            if (typeof config.port !== "number") {
+                return abortLaunch("'port' not set in launch.json");
+            }
+
+        } else if (typeof config.program === "undefined" || !isCustomProgramConfig(config.program)) {
             const luaConfig: Partial<LuaProgramConfig> = config.program ?? {};
             if (typeof luaConfig.lua === "undefined") {
                 const luaBin: string | undefined = vscode.workspace.getConfiguration().get(interpreterSetting);
@@ -111,6 +126,26 @@ const configurationProvider: vscode.DebugConfigurationProvider = {
     }
 };
 
+async function copyValue(context: VariableContext, format: LuaDebug.LiteralFormat) {
+    const session = vscode.debug.activeDebugSession;
+    if (typeof session === "undefined" || session.type !== debuggerType) {
+        return;
+    }
+    try {
+        const args: CopyValueArguments = {
+            variablesReference: context.variable.variablesReference,
+            evaluateName: context.variable.evaluateName,
+            format,
+            maxDepth: copyMaxDepth,
+            maxFields: copyMaxFields
+        };
+        const body = await session.customRequest("copyValue", args) as {text: string};
+        await vscode.env.clipboard.writeText(body.text);
+    } catch (err: unknown) {
+        void vscode.window.showErrorMessage(`Failed to copy ${context.variable.name}: ${(err as Error).message}`);
+    }
+}
+
 let debugAdapaterDescriptorFactory: (vscode.DebugAdapterDescriptorFactory & { dispose: () => void }) | undefined;
 // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
 if (enableServer) {
@@ -145,6 +180,17 @@ export function activate(context: vscode.ExtensionContext): void {
         vscode.debug.registerDebugConfigurationProvider(debuggerType, configurationProvider)
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            `${debuggerType}.copyAsLua`,
+            (variableContext: VariableContext) => copyValue(variableContext, "lua")
+        ),
+        vscode.commands.registerCommand(
+            `${debuggerType}.copyAsJson`,
+            (variableContext: VariableContext) => copyValue(variableContext, "json")
+        )
+    );
+
     if (typeof debugAdapaterDescriptorFactory !== "undefined") {
         context.subscriptions.push(
             vscode.debug.registerDebugAdapterDescriptorFactory(debuggerType, debugAdapaterDescriptorFactory)
@@ -31,20 +31,41 @@ export interface CustomProgramConfig {
     communication?: string;
 }
 
-export interface LaunchConfig {
+export interface ValueFormatterConfig {
+    metatable?: string;
+    class?: string;
+    predicate?: string;
+    display: string;
+    children?: string;
+}
+
+export interface SessionConfig {
     extensionPath: string;
     workspacePath: string;
-    program: LuaProgramConfig | CustomProgramConfig;
-    args?: string[];
     cwd: string;
-    env?: { [name: string]: string };
     scriptRoots?: string[];
     verbose?: boolean;
     stopOnEntry?: boolean;
-    breakInCoroutines?: boolean;
-    stepUnmappedLines?: boolean;
     scriptFiles?: string[];
     ignorePatterns?: string[];
+    formatters?: ValueFormatterConfig[];
+    rawWatch?: boolean;
+    showInherited?: boolean;
+    pauseWhileRunning?: boolean;
+}
+
+export interface LaunchConfig extends SessionConfig {
+    program: LuaProgramConfig | CustomProgramConfig;
+    args?: string[];
+    env?: { [name: string]: string };
+    breakInCoroutines?: boolean;
+    stepUnmappedLines?: boolean;
+}
+
+export interface AttachConfig extends SessionConfig {
+    host?: string;
+    port: number;
+    listen?: boolean;
 }
 
 export function isCustomProgramConfig(config: LuaProgramConfig | CustomProgramConfig): config is CustomProgramConfig {
@@ -23,6 +23,7 @@
 import {DebugProtocol} from "vscode-debugprotocol";
 import {
     Breakpoint,
+    BreakpointEvent,
     InitializedEvent,
     LoggingDebugSession,
     Scope,
@@ -34,14 +35,23 @@ import {
     StoppedEvent,
     Variable,
     Handles,
-    ThreadEvent
+    ThreadEvent,
+    LoadedSourceEvent
 } from "vscode-debugadapter";
 import * as childProcess from "child_process";
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
 import {Message} from "./message";
-import {LaunchConfig, isCustomProgramConfig} from "./launchConfig";
-import {createFifoPipe, createNamedPipe, DebugPipe} from "./debugPipe";
+import {LaunchConfig, AttachConfig, ValueFormatterConfig, isCustomProgramConfig} from "./launchConfig";
+import {
+    createFifoPipe,
+    createNamedPipe,
+    createSocketClient,
+    createSocketServer,
+    createSocketPipe,
+    DebugConnection
+} from "./debugPipe";
 
 interface MessageHandler<T extends LuaDebug.Message = LuaDebug.Message> {
     (msg: T): void;
@@ -66,9 +76,18 @@ const enum OutputCategory {
 
 // const mainThreadId = 1;
 const maxStackCount = 100;
+const namedPageSize = 1000;
 const metatableDisplayName = "[[metatable]]";
 const tableLengthDisplayName = "[[length]]";
+const inheritedDisplayName = "[[inherited]]";
+const environmentDisplayName = "[[environment]]";
+const parametersDisplayName = "[[parameters]]";
+const varargDisplayName = "[[vararg]]";
+const definitionDisplayName = "[[defined]]";
 const metatableAccessor: LuaDebug.MetatableAccessor = "lldbg_getmetatable";
+const upvalueAccessor: LuaDebug.UpvalueAccessor = "lldbg_getupvalue";
+const environmentAccessor: LuaDebug.EnvironmentAccessor = "lldbg_getfenv";
+const handleAccessor: LuaDebug.HandleAccessor = "lldbg_handle";
 const envVariable = "LOCAL_LUA_DEBUGGER_VSCODE";
 const filePathEnvVariable = "LOCAL_LUA_DEBUGGER_FILEPATH";
 const scriptRootsEnvVariable: LuaDebug.ScriptRootsEnv = "LOCAL_LUA_DEBUGGER_SCRIPT_ROOTS";
@@ -76,6 +95,49 @@ const breakInCoroutinesEnv: LuaDebug.BreakInCoroutinesEnv = "LOCAL_LUA_DEBUGGER_
 const stepUnmappedLinesEnv: LuaDebug.StepUnmappedLinesEnv = "LOCAL_LUA_DEBUGGER_STEP_UNMAPPED_LINES";
 const inputFileEnv: LuaDebug.InputFileEnv = "LOCAL_LUA_DEBUGGER_INPUT_FILE";
 const outputFileEnv: LuaDebug.OutputFileEnv = "LOCAL_LUA_DEBUGGER_OUTPUT_FILE";
+const socketEnv: LuaDebug.SocketEnv = "LOCAL_LUA_DEBUGGER_SOCKET";
+const socketTokenEnv: LuaDebug.SocketTokenEnv = "LOCAL_LUA_DEBUGGER_SOCKET_TOKEN";
+const pauseFileEnv: LuaDebug.PauseFileEnv = "LOCAL_LUA_DEBUGGER_PAUSE_FILE";
+
+//Where a function value was defined, for variables which link to it
+interface ValueLocation {
+    source: Source;
+    line: number;
+    endLine?: number;
+}
+
+//A group of fields, for scopes and tables with too many to show at once
+interface VariablePage {
+    scope?: ScopeType;
+    kind: "named" | "all";
+    start: number;
+    count: number;
+}
+
+//A value which can be expanded. Values are found on the debugger side by handle where possible, and the
+//evaluate name is only used for expressions shown to the user (ex. "Add to Watch")
+interface VariableHandle {
+    expression: string;
+    evaluateName?: string;
+    specifiers: string[];
+    page?: VariablePage;
+    keys?: Map<string, string>;
+    inherited?: boolean;
+}
+
+//Sent by the commands which copy a variable as a Lua table constructor or JSON
+export interface CopyValueArguments {
+    variablesReference: number;
+    evaluateName?: string;
+    format: LuaDebug.LiteralFormat;
+    maxDepth: number;
+    maxFields: number;
+}
+
+//Newer protocol versions let variables link to the location of their value
+interface LocatedVariable extends DebugProtocol.Variable {
+    valueLocationReference?: number;
+}
 
 function getEnvKey(env: NodeJS.ProcessEnv, searchKey: string) {
     const upperSearchKey = searchKey.toUpperCase();
@@ -87,7 +149,7 @@ function getEnvKey(env: NodeJS.ProcessEnv, searchKey: string) {
     return searchKey;
 }
 
-function sortVariables(a: Variable, b: Variable): number {
+function sortVariables(a: DebugProtocol.Variable, b: DebugProtocol.Variable): number {
     const aIsBracketted = a.name.startsWith("[[");
     const bIsBracketted = b.name.startsWith("[[");
     if (aIsBracketted !== bIsBracketted) {
@@ -123,6 +185,35 @@ function sortVariables(a: Variable, b: Variable): number {
     }
 }
 
+//Control characters use 3 digit decimal escapes, which every Lua version reads and a following digit can't extend
+function getStringLiteral(str: string) {
+    let escaped = "";
+    for (const c of str) {
+        const code = c.charCodeAt(0);
+        if (c === "\\" || c === "\"") {
+            escaped += `\\${c}`;
+        } else if (code < 32 || code === 127) {
+            escaped += `\\${code.toString().padStart(3, "0")}`;
+        } else {
+            escaped += c;
+        }
+    }
+    return `"${escaped}"`;
+}
+
+//Keys which can't be written as Lua (ex. tables) are found by handle, for setting fields later
+function getKeyExpression(variable: LuaDebug.Variable) {
+    return typeof variable.keyHandle !== "undefined" ? `${handleAccessor}(${variable.keyHandle})` : variable.name;
+}
+
+//Only numbers and strings without escapes can be written as keys the user could type
+function getFieldEvaluateName(tableName: string | undefined, keyName: string) {
+    if (typeof tableName === "undefined" || !/^(-?\d+(\.\d+)?(e[+-]?\d+)?|"[^"\\\r\n]*")$/.test(keyName)) {
+        return;
+    }
+    return `${tableName}[${keyName}]`;
+}
+
 function parseFrameId(frameId: number) {
     return {threadId: Math.floor(frameId / maxStackCount) + 1, frame: frameId % maxStackCount + 1};
 }
@@ -131,26 +222,126 @@ function makeFrameId(threadId: number, frame: number) {
     return (threadId - 1) * maxStackCount + (frame - 1);
 }
 
+//Instruction addresses are made from a function's id and the instruction's index in that function
+const maxFunctionInstructions = 0x100000;
+
+function parseInstructionAddress(address: number) {
+    return {funcId: Math.floor(address / maxFunctionInstructions), pc: address % maxFunctionInstructions};
+}
+
+//Padding before or after a function's instructions is clamped to its range, so it can't refer to another function
+function makeInstructionAddress(funcId: number, pc: number) {
+    const clampedPc = Math.min(Math.max(pc, 0), maxFunctionInstructions - 1);
+    return `0x${(funcId * maxFunctionInstructions + clampedPc).toString(16)}`;
+}
+
+//Format specifiers can follow an expression after two commas (ex. "flags,,x" or "list,,x,count=20"). A single comma
+//would be ambiguous, since "a, x" is a valid list of expressions, but two commas in a row are never valid Lua.
+const formatSpecifier = "(?:x|b|raw|\\d+g|count=\\d+)";
+const formatSpecifiersPattern = new RegExp(`^(.+?)\\s*,,\\s*(${formatSpecifier}(?:,${formatSpecifier})*)$`);
+
+function parseFormatSpecifiers(expression: string) {
+    const match = formatSpecifiersPattern.exec(expression);
+    if (match === null) {
+        return {expression, specifiers: []};
+    }
+    return {expression: match[1], specifiers: match[2].split(",")};
+}
+
+//Specifiers are passed to the debugger after the command's name (ex. "eval:x,count=20 expression")
+function addFormatSpecifiers(command: string, specifiers: string[], format?: DebugProtocol.ValueFormat) {
+    if (format?.hex === true && !specifiers.includes("x")) {
+        specifiers = [...specifiers, "x"];
+    }
+    if (specifiers.length === 0) {
+        return command;
+    }
+    return command.replace(/^\w+/, name => `${name}:${specifiers.join(",")}`);
+}
+
+const exceptionConditionDescription = "Lua pattern the error message must match";
+
+const exceptionBreakpointFilters: DebugProtocol.ExceptionBreakpointsFilter[] = [
+    {
+        filter: "runtime",
+        label: "Runtime Errors",
+        default: true,
+        supportsCondition: true,
+        conditionDescription: exceptionConditionDescription
+    },
+    {
+        filter: "error",
+        label: "error() Calls",
+        default: true,
+        supportsCondition: true,
+        conditionDescription: exceptionConditionDescription
+    },
+    {
+        filter: "assert",
+        label: "Failed Assertions",
+        default: true,
+        supportsCondition: true,
+        conditionDescription: exceptionConditionDescription
+    },
+    {
+        filter: "coroutine",
+        label: "Coroutine Errors",
+        default: true,
+        supportsCondition: true,
+        conditionDescription: exceptionConditionDescription
+    }
+];
+
 export class LuaDebugSession extends LoggingDebugSession {
     private readonly fileBreakpoints: { [file: string]: DebugProtocol.SourceBreakpoint[] | undefined } = {};
-    private config?: LaunchConfig;
+    private readonly fileBreakpointResults: { [file: string]: DebugProtocol.Breakpoint[] | undefined } = {};
+    private readonly breakpointsByLuaId = new Map<number, DebugProtocol.Breakpoint>();
+    private nextBreakpointId = 1;
+    private functionBreakpoints: DebugProtocol.FunctionBreakpoint[] = [];
+    private dataBreakpoints: DebugProtocol.DataBreakpoint[] = [];
+    private exceptionFilters: DebugProtocol.ExceptionFilterOptions[] = [];
+    private config?: LaunchConfig | AttachConfig;
     private process: childProcess.ChildProcess | null = null;
-    private debugPipe: DebugPipe | null = null;
+    private debugPipe: DebugConnection | null = null;
+    private pauseFilePath: string | null = null;
     private outputText = "";
     private onConfigurationDone?: () => void;
     private readonly messageHandlerQueue: MessageHandler[] = [];
-    private readonly variableHandles = new Handles<string>(ScopeType.Global + 1);
+    private readonly variableHandles = new Handles<VariableHandle>(ScopeType.Global + 1);
+    private readonly locationHandles = new Handles<ValueLocation>();
     private breakpointsPending = false;
+    private functionBreakpointsPending = false;
+    private dataBreakpointsPending = false;
+    private exceptionFiltersPending = false;
     private pendingScripts: string[] | null = null;
     private pendingIgnorePatterns: string[] | null = null;
+    private pendingFormatters: ValueFormatterConfig[] | null = null;
+    private pendingPauseWhileRunning = false;
     private autoContinueNext = false;
     private readonly activeThreads = new Map<number, Thread>();
+    private readonly loadedSources = new Map<string, Source>();
+    private readonly chunkTexts = new Map<number, string>();
+    private readonly disassemblies = new Map<number, LuaDebug.Disassembly>();
+    private readonly activeLines = new Map<string, number[]>();
+    private stepInTargets: LuaDebug.StepInTarget[] = [];
     private isRunning = false;
+    private readonly cancellableRequests = new Map<number, DebugProtocol.Response>();
+    private readonly cancelledRequests = new Set<number>();
 
     public constructor() {
         super("lldebugger-log.txt");
     }
 
+    public sendResponse(response: DebugProtocol.Response): void {
+        this.cancellableRequests.delete(response.request_seq);
+        if (!this.cancelledRequests.delete(response.request_seq)) {
+            super.sendResponse(response);
+        } else {
+            //The cancelled request has finished, so a pause request it didn't use mustn't pause the program later
+            this.removePauseFile();
+        }
+    }
+
     protected initializeRequest(
         response: DebugProtocol.InitializeResponse,
         args: DebugProtocol.InitializeRequestArguments
@@ -166,6 +357,21 @@ export class LuaDebugSession extends LoggingDebugSession {
         response.body.supportsSetVariable = true;
         response.body.supportsTerminateRequest = true;
         response.body.supportsConditionalBreakpoints = true;
+        response.body.supportsFunctionBreakpoints = true;
+        response.body.supportsHitConditionalBreakpoints = true;
+        response.body.supportsLogPoints = true;
+        response.body.supportsDataBreakpoints = true;
+        response.body.supportsCompletionsRequest = true;
+        response.body.supportsLoadedSourcesRequest = true;
+        response.body.completionTriggerCharacters = [".", ":"];
+        response.body.supportsExceptionFilterOptions = true;
+        response.body.exceptionBreakpointFilters = exceptionBreakpointFilters;
+        response.body.supportsDisassembleRequest = true;
+        response.body.supportsBreakpointLocationsRequest = true;
+        response.body.supportsSteppingGranularity = true;
+        response.body.supportsStepInTargetsRequest = true;
+        response.body.supportsValueFormattingOptions = true;
+        response.body.supportsCancelRequest = true;
 
         this.sendResponse(response);
 
@@ -194,20 +400,9 @@ export class LuaDebugSession extends LoggingDebugSession {
 
         this.showOutput("launchRequest", OutputCategory.Request);
 
-        await this.waitForConfiguration();
-
-        if (this.config.scriptFiles) {
-            this.pendingScripts = this.config.scriptFiles;
-        }
-
-        if (this.config.ignorePatterns) {
-            this.pendingIgnorePatterns = this.config.ignorePatterns;
-        }
+        await this.prepareSession();
 
         //Setup process
-        if (!path.isAbsolute(this.config.cwd)) {
-            this.config.cwd = path.resolve(this.config.workspacePath, this.config.cwd);
-        }
         const cwd = this.config.cwd;
         const processOptions/* : child_process.SpawnOptions */ = {
             env: Object.assign({}, process.env),
@@ -239,20 +434,36 @@ export class LuaDebugSession extends LoggingDebugSession {
             processOptions.env[stepUnmappedLinesEnv] = this.config.stepUnmappedLines ? "1" : "0";
         }
 
+        //Debugger polls for this file to be created when a pause is requested. It's kept in a directory only this
+        //user can access, so other users can't find it or pause the program. Sockets are polled for pause requests
+        //instead, so they don't need one.
+        if (this.config.program.communication !== "socket") {
+            this.pauseFilePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lldbg_")), "pause");
+            processOptions.env[pauseFileEnv] = this.pauseFilePath;
+        }
+
         //Open pipes
         if (this.config.program.communication === "pipe") {
-            if (process.platform === "win32") {
-                this.debugPipe = createNamedPipe();
-            } else {
-                this.debugPipe = createFifoPipe();
-            }
-            this.debugPipe.open(
+            const debugPipe = process.platform === "win32" ? createNamedPipe() : createFifoPipe();
+            debugPipe.open(
                 data => { void this.onDebuggerOutput(data); },
                 err => { this.showOutput(`${err}`, OutputCategory.Error); }
             );
+            this.debugPipe = debugPipe;
 
-            processOptions.env[outputFileEnv] = this.debugPipe.getOutputPipePath();
-            processOptions.env[inputFileEnv] = this.debugPipe.getInputPipePath();
+            processOptions.env[outputFileEnv] = debugPipe.getOutputPipePath();
+            processOptions.env[inputFileEnv] = debugPipe.getInputPipePath();
+
+        } else if (this.config.program.communication === "socket") {
+            const debugSocket = createSocketPipe();
+            debugSocket.open(
+                data => { void this.onDebuggerOutput(data); },
+                err => { this.showOutput(`${err}`, OutputCategory.Error); }
+            );
+            this.debugPipe = debugSocket;
+
+            processOptions.env[socketEnv] = await debugSocket.getAddress();
+            processOptions.env[socketTokenEnv] = debugSocket.getToken();
         }
 
         //Append lua path so it can find debugger script
@@ -313,6 +524,37 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected async attachRequest(
+        response: DebugProtocol.AttachResponse,
+        args: DebugProtocol.AttachRequestArguments & AttachConfig
+    ): Promise<void> {
+        this.config = args;
+        this.autoContinueNext = this.config.stopOnEntry !== true;
+
+        this.showOutput("attachRequest", OutputCategory.Request);
+
+        await this.prepareSession();
+
+        const host = typeof this.config.host !== "undefined" ? this.config.host : "localhost";
+        const port = this.config.port;
+        if (this.config.listen === true) {
+            this.debugPipe = createSocketServer(host, port);
+            this.showOutput(`waiting for debugger to connect on ${host}:${port}`, OutputCategory.Info);
+        } else {
+            this.debugPipe = createSocketClient(host, port);
+            this.showOutput(`attaching to debugger on ${host}:${port}`, OutputCategory.Info);
+        }
+        this.debugPipe.open(
+            data => { void this.onDebuggerOutput(data); },
+            err => { this.showOutput(`${err}`, OutputCategory.Error); },
+            () => this.onDebuggerTerminated("disconnected")
+        );
+
+        this.isRunning = true;
+
+        this.sendResponse(response);
+    }
+
     protected async setBreakPointsRequest(
         response: DebugProtocol.SetBreakpointsResponse,
         args: DebugProtocol.SetBreakpointsArguments
@@ -321,7 +563,16 @@ export class LuaDebugSession extends LoggingDebugSession {
 
         const filePath = args.source.path as string;
 
-        if (this.process !== null && !this.isRunning) {
+        const oldResults = this.fileBreakpointResults[filePath];
+        if (typeof oldResults !== "undefined") {
+            this.forgetBreakpointResults(oldResults);
+        }
+
+        //Breakpoints stay unverified until the debugger has resolved them
+        const sourceBreakpoints = args.breakpoints ?? [];
+        const breakpoints = sourceBreakpoints.map(breakpoint => this.createBreakpointResult(breakpoint));
+
+        if (this.isConnected() && !this.isRunning) {
             const oldBreakpoints = this.fileBreakpoints[filePath];
             if (typeof oldBreakpoints !== "undefined") {
                 for (const breakpoint of oldBreakpoints) {
@@ -329,10 +580,9 @@ export class LuaDebugSession extends LoggingDebugSession {
                 }
             }
 
-            if (typeof args.breakpoints !== "undefined") {
-                for (const breakpoint of args.breakpoints) {
-                    await this.setBreakpoint(filePath, breakpoint);
-                }
+            for (let i = 0; i < sourceBreakpoints.length; ++i) {
+                const result = await this.setBreakpoint(filePath, sourceBreakpoints[i]);
+                this.updateBreakpointResult(breakpoints[i], result);
             }
 
         } else {
@@ -340,14 +590,173 @@ export class LuaDebugSession extends LoggingDebugSession {
         }
 
         this.fileBreakpoints[filePath] = args.breakpoints;
+        this.fileBreakpointResults[filePath] = breakpoints;
+
+        response.body = {breakpoints};
+        this.sendResponse(response);
+    }
+
+    protected async breakpointLocationsRequest(
+        response: DebugProtocol.BreakpointLocationsResponse,
+        args: DebugProtocol.BreakpointLocationsArguments
+    ): Promise<void> {
+        this.showOutput(`breakpointLocationsRequest ${args.source.path}:${args.line}`, OutputCategory.Request);
+
+        const filePath = args.source.path;
+        if (typeof filePath === "undefined") {
+            response.body = {breakpoints: []};
+            this.sendResponse(response);
+            return;
+        }
+
+        //Lines can only be fetched while stopped, so remember them for use while running
+        let lines = this.activeLines.get(filePath);
+        if (!this.isRunning) {
+            const msg = await this.waitForCommandResponse(`lines ${filePath}`);
+            if (msg.type === "activeLines") {
+                lines = msg.lines;
+                this.activeLines.set(filePath, lines);
+            }
+        }
+
+        //Without the file's lines, every line is offered so breakpoints can still be placed anywhere
+        const startLine = args.line;
+        const endLine = typeof args.endLine !== "undefined" ? args.endLine : startLine;
+        const breakpoints: DebugProtocol.BreakpointLocation[] = [];
+        for (let line = startLine; line <= endLine; ++line) {
+            if (typeof lines === "undefined" || lines.includes(line)) {
+                breakpoints.push({line});
+            }
+        }
+        response.body = {breakpoints};
+        this.sendResponse(response);
+    }
+
+    protected async setFunctionBreakPointsRequest(
+        response: DebugProtocol.SetFunctionBreakpointsResponse,
+        args: DebugProtocol.SetFunctionBreakpointsArguments
+    ): Promise<void> {
+        this.showOutput("setFunctionBreakPointsRequest", OutputCategory.Request);
+
+        if (this.isConnected() && !this.isRunning) {
+            await this.waitForCommandResponse("funcbreak clear");
+            for (const breakpoint of args.breakpoints) {
+                await this.setFunctionBreakpoint(breakpoint);
+            }
+
+        } else {
+            this.functionBreakpointsPending = true;
+        }
+
+        this.functionBreakpoints = args.breakpoints;
+
+        const breakpoints: Breakpoint[] = args.breakpoints.map(() => new Breakpoint(true));
+        response.body = {breakpoints};
+        this.sendResponse(response);
+    }
+
+    protected async dataBreakpointInfoRequest(
+        response: DebugProtocol.DataBreakpointInfoResponse,
+        args: DebugProtocol.DataBreakpointInfoArguments
+    ): Promise<void> {
+        this.showOutput(`dataBreakpointInfoRequest ${args.name}`, OutputCategory.Request);
+
+        let tableExpression: string | undefined;
+        let keyExpression = args.name;
+        let fieldDescription = args.name;
+        if (args.variablesReference === ScopeType.Global) {
+            tableExpression = "_G";
+            keyExpression = getStringLiteral(args.name);
+            fieldDescription = `_G[${keyExpression}]`;
+        } else if (typeof args.variablesReference !== "undefined" && args.variablesReference > ScopeType.Global) {
+            const handle = this.variableHandles.get(args.variablesReference) as VariableHandle | undefined;
+            const key = handle?.keys?.get(args.name);
+            if (typeof handle !== "undefined" && typeof key !== "undefined" && !handle.expression.startsWith("@")) {
+                tableExpression = handle.expression;
+                keyExpression = key;
+                fieldDescription = getFieldEvaluateName(handle.evaluateName, args.name) ?? args.name;
+            }
+        }
+
+        if (typeof tableExpression === "undefined") {
+            response.body = {dataId: null, description: "Data breakpoints can only be set on table fields"};
+            this.sendResponse(response);
+            return;
+        }
+
+        const msg = await this.waitForCommandResponse(`databreak info ${tableExpression}, ${keyExpression}`);
+        if (msg.type === "dataBreakpointInfo") {
+            response.body = {
+                dataId: msg.dataId,
+                description: fieldDescription,
+                accessTypes: ["write"],
+                canPersist: false
+            };
+        } else {
+            const description = msg.type === "error" ? this.filterErrorMessage(msg.error) : "Unavailable";
+            response.body = {dataId: null, description};
+        }
+        this.sendResponse(response);
+    }
+
+    protected async setDataBreakpointsRequest(
+        response: DebugProtocol.SetDataBreakpointsResponse,
+        args: DebugProtocol.SetDataBreakpointsArguments
+    ): Promise<void> {
+        this.showOutput("setDataBreakpointsRequest", OutputCategory.Request);
+
+        const isSet = this.isConnected() && !this.isRunning;
+        if (isSet) {
+            await this.waitForCommandResponse("databreak clear");
+        } else {
+            this.dataBreakpointsPending = true;
+        }
+
+        //Reads can't be detected, so only breakpoints on writes are accepted
+        const breakpoints: DebugProtocol.Breakpoint[] = [];
+        for (const breakpoint of args.breakpoints) {
+            if (typeof breakpoint.accessType !== "undefined" && breakpoint.accessType !== "write") {
+                const unsupported: DebugProtocol.Breakpoint = new Breakpoint(false);
+                unsupported.message = "Data breakpoints can only break on writes";
+                breakpoints.push(unsupported);
+            } else if (isSet) {
+                const resultMsg = await this.setDataBreakpoint(breakpoint);
+                breakpoints.push(new Breakpoint(resultMsg.type === "dataBreakpoints"));
+            } else {
+                breakpoints.push(new Breakpoint(true));
+            }
+        }
+
+        this.dataBreakpoints = args.breakpoints.filter(
+            breakpoint => typeof breakpoint.accessType === "undefined" || breakpoint.accessType === "write"
+        );
 
-        const breakpoints: Breakpoint[] = (typeof args.breakpoints !== "undefined")
-            ? args.breakpoints.map(breakpoint => new Breakpoint(true, breakpoint.line))
-            : [];
         response.body = {breakpoints};
         this.sendResponse(response);
     }
 
+    protected async setExceptionBreakPointsRequest(
+        response: DebugProtocol.SetExceptionBreakpointsResponse,
+        args: DebugProtocol.SetExceptionBreakpointsArguments
+    ): Promise<void> {
+        this.showOutput("setExceptionBreakPointsRequest", OutputCategory.Request);
+
+        const filters: DebugProtocol.ExceptionFilterOptions[] = args.filters.map(filterId => ({filterId}));
+        if (typeof args.filterOptions !== "undefined") {
+            filters.push(...args.filterOptions);
+        }
+
+        if (this.isConnected() && !this.isRunning) {
+            await this.setExceptionFilters(filters);
+        } else {
+            this.exceptionFiltersPending = true;
+        }
+
+        this.exceptionFilters = filters;
+
+        this.sendResponse(response);
+    }
+
     protected async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
         this.showOutput("threadsRequest", OutputCategory.Request);
 
@@ -417,15 +826,23 @@ export class LuaDebugSession extends LoggingDebugSession {
                     source = new Source(path.basename(frame.source), sourcePath);
                 }
 
+                //Chunk loaded from a string
+                if (typeof source === "undefined" && typeof frame.sourceId !== "undefined") {
+                    source = this.createChunkSource(frame.source, frame.sourceId);
+                }
+
                 //Function name
                 let frameFunc = typeof frame.func !== "undefined" ? frame.func : "???";
-                if (typeof sourcePath === "undefined") {
+                if (typeof sourcePath === "undefined" && typeof frame.sourceId === "undefined") {
                     frameFunc += ` ${frame.source}`;
                 }
 
                 const frameId = makeFrameId(args.threadId, i + 1);
                 const stackFrame: DebugProtocol.StackFrame = new StackFrame(frameId, frameFunc, source, line, column);
-                stackFrame.presentationHint = typeof sourcePath === "undefined" ? "subtle" : "normal";
+                stackFrame.presentationHint = typeof source === "undefined" ? "subtle" : "normal";
+                if (typeof frame.funcId !== "undefined" && typeof frame.pc !== "undefined") {
+                    stackFrame.instructionPointerReference = makeInstructionAddress(frame.funcId, frame.pc);
+                }
                 frames.push(stackFrame);
             }
             response.body = {stackFrames: frames, totalFrames: msg.frames.length};
@@ -460,11 +877,20 @@ export class LuaDebugSession extends LoggingDebugSession {
         response: DebugProtocol.VariablesResponse,
         args: DebugProtocol.VariablesArguments
     ): Promise<void> {
+        this.cancellableRequests.set(response.request_seq, response);
         let cmd: string | undefined;
         let baseName: string | undefined;
         let isMultiResult = false;
+        let handle: VariableHandle | undefined;
+        if (args.variablesReference > ScopeType.Global) {
+            handle = this.assert(this.variableHandles.get(args.variablesReference));
+        }
+        const specifiers = handle?.specifiers ?? [];
+        const page = handle?.page;
+        const scope = page?.scope ?? args.variablesReference;
+        const pageKind = args.filter === "named" ? "named" : "all";
 
-        switch (args.variablesReference) {
+        switch (scope) {
         case ScopeType.Local:
             cmd = "locals";
             this.showOutput("variablesRequest locals", OutputCategory.Request);
@@ -477,17 +903,30 @@ export class LuaDebugSession extends LoggingDebugSession {
 
         case ScopeType.Global:
             cmd = "globals";
-            this.showOutput("variablesRequest globals", OutputCategory.Request);
+            if (typeof page !== "undefined") {
+                cmd += ` ${page.start + 1} ${page.count}`;
+            }
+            this.showOutput(`variablesRequest ${cmd}`, OutputCategory.Request);
             break;
 
         default:
-            baseName = this.assert(this.variableHandles.get(args.variablesReference));
+            baseName = this.assert(handle).expression;
+            if (baseName.startsWith("$")) {
+                baseName = baseName.substr(1);
+                cmd = `func ${baseName}`;
+                this.showOutput(`variablesRequest ${baseName} function`, OutputCategory.Request);
+                break;
+            }
             if (baseName.startsWith("@")) {
                 baseName = baseName.substr(1);
                 isMultiResult = true;
             }
             cmd = `props ${baseName}`;
-            if (typeof args.filter !== "undefined") {
+            if (this.assert(handle).inherited === true) {
+                cmd += " inherited";
+            } else if (typeof page !== "undefined") {
+                cmd += ` ${page.kind} ${page.start + 1} ${page.count}`;
+            } else if (typeof args.filter !== "undefined") {
                 cmd += ` ${args.filter}`;
                 if (typeof args.start !== "undefined") {
                     const start = Math.max(args.start, 1);
@@ -507,30 +946,94 @@ export class LuaDebugSession extends LoggingDebugSession {
             break;
         }
 
-        const vars = await this.waitForCommandResponse(cmd);
+        const vars = await this.waitForCommandResponse(addFormatSpecifiers(cmd, specifiers, args.format));
 
-        const variables: Variable[] = [];
+        const variables: DebugProtocol.Variable[] = [];
+        let pages: DebugProtocol.Variable[] = [];
         if (vars.type === "variables") {
             for (const variable of vars.variables) {
-                variables.push(this.buildVariable(variable, variable.name));
+                variables.push(this.buildVariable(variable, variable.name, variable.name));
+            }
+            if (typeof vars.namedCount !== "undefined" && typeof page === "undefined") {
+                pages = this.buildPageVariables({expression: "", specifiers}, pageKind, vars.namedCount, scope);
             }
 
         } else if (vars.type === "properties") {
+            const tableHandle = this.assert(handle);
+            const tableName = this.assert(baseName);
+            const evaluateName = tableHandle.evaluateName;
+
+            tableHandle.keys = new Map<string, string>();
             for (const variable of vars.properties) {
-                const refName = typeof baseName === "undefined" ? variable.name : `${baseName}[${variable.name}]`;
-                variables.push(this.buildVariable(variable, refName));
+                const keyExpression = getKeyExpression(variable);
+                tableHandle.keys.set(variable.name, keyExpression);
+                variables.push(
+                    this.buildVariable(
+                        variable,
+                        `${tableName}[${keyExpression}]`,
+                        getFieldEvaluateName(evaluateName, variable.name)
+                    )
+                );
+            }
+            if (typeof vars.namedCount !== "undefined" && typeof page === "undefined") {
+                pages = this.buildPageVariables(tableHandle, pageKind, vars.namedCount);
             }
 
-            if (typeof vars.metatable !== "undefined" && typeof baseName !== "undefined") {
+            if (typeof vars.metatable !== "undefined") {
                 variables.push(
-                    this.buildVariable(vars.metatable, `${metatableAccessor}(${baseName})`, metatableDisplayName)
+                    this.buildVariable(
+                        vars.metatable,
+                        `${metatableAccessor}(${tableName})`,
+                        typeof evaluateName !== "undefined" ? `${metatableAccessor}(${evaluateName})` : evaluateName,
+                        metatableDisplayName
+                    )
                 );
             }
 
+            if (vars.inherits === true && this.config?.showInherited === true) {
+                const inheritedRef = this.variableHandles.create(
+                    {expression: tableName, evaluateName, specifiers: [], inherited: true}
+                );
+                const inherited: DebugProtocol.Variable = new Variable(inheritedDisplayName, "", inheritedRef);
+                inherited.presentationHint = {kind: "virtual", attributes: ["readOnly"]};
+                variables.push(inherited);
+            }
+
             if (typeof vars.length !== "undefined" && !isMultiResult) {
-                variables.push(this.buildVariable(vars.length, `#${baseName}`, tableLengthDisplayName));
+                variables.push(
+                    this.buildVariable(
+                        vars.length,
+                        `#${tableName}`,
+                        typeof evaluateName !== "undefined" ? `#${evaluateName}` : evaluateName,
+                        tableLengthDisplayName
+                    )
+                );
             }
 
+        } else if (vars.type === "inheritedProperties") {
+            //Inherited fields are read from the class they came from, which is found by handle. Setting or watching one
+            //uses the instance instead, the same as assigning to the field in Lua would, so the class isn't changed.
+            const inheritedHandle = this.assert(handle);
+            inheritedHandle.keys = new Map<string, string>();
+            for (const variable of vars.properties) {
+                const keyExpression = getKeyExpression(variable);
+                const ownerExpression = `${handleAccessor}(${variable.ownerHandle})`;
+                const displayName = `${variable.name} (${variable.owner})`;
+                inheritedHandle.keys.set(displayName, keyExpression);
+                variables.push(
+                    this.buildVariable(
+                        variable,
+                        `${ownerExpression}[${keyExpression}]`,
+                        getFieldEvaluateName(inheritedHandle.evaluateName, variable.name),
+                        displayName
+                    )
+                );
+            }
+
+        } else if (vars.type === "functionProperties") {
+            const funcName = this.assert(baseName);
+            variables.push(...this.buildFunctionVariables(vars, funcName, this.assert(handle).evaluateName));
+
         } else if (vars.type === "error") {
             response.success = false;
             response.message = this.filterErrorMessage(vars.error);
@@ -541,6 +1044,8 @@ export class LuaDebugSession extends LoggingDebugSession {
             response.success = false;
         }
         variables.sort(sortVariables);
+        variables.push(...pages);
+        this.setVariableFormats(variables, specifiers);
 
         response.body = {variables};
         this.sendResponse(response);
@@ -550,6 +1055,7 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.showOutput("continueRequest", OutputCategory.Request);
         if (this.sendCommand("cont")) {
             this.variableHandles.reset();
+            this.locationHandles.reset();
             this.isRunning = true;
         } else {
             response.success = false;
@@ -559,8 +1065,9 @@ export class LuaDebugSession extends LoggingDebugSession {
 
     protected nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
         this.showOutput("nextRequest", OutputCategory.Request);
-        if (this.sendCommand("step")) {
+        if (this.sendCommand(args.granularity === "instruction" ? "nexti" : "step")) {
             this.variableHandles.reset();
+            this.locationHandles.reset();
             this.isRunning = true;
         } else {
             response.success = false;
@@ -570,8 +1077,13 @@ export class LuaDebugSession extends LoggingDebugSession {
 
     protected stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): void {
         this.showOutput("stepInRequest", OutputCategory.Request);
-        if (this.sendCommand("stepin")) {
+        let cmd = args.granularity === "instruction" ? "stepi" : "stepin";
+        if (typeof args.targetId !== "undefined" && args.targetId <= this.stepInTargets.length) {
+            cmd = `stepin ${args.targetId}`;
+        }
+        if (this.sendCommand(cmd)) {
             this.variableHandles.reset();
+            this.locationHandles.reset();
             this.isRunning = true;
         } else {
             response.success = false;
@@ -579,10 +1091,31 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected async stepInTargetsRequest(
+        response: DebugProtocol.StepInTargetsResponse,
+        args: DebugProtocol.StepInTargetsArguments
+    ): Promise<void> {
+        this.showOutput(`stepInTargetsRequest ${args.frameId}`, OutputCategory.Request);
+
+        const {threadId, frame} = parseFrameId(args.frameId);
+        await this.waitForCommandResponse(`thread ${threadId}`);
+        await this.waitForCommandResponse(`frame ${frame}`);
+
+        const msg = await this.waitForCommandResponse("targets");
+        this.stepInTargets = msg.type === "stepInTargets" ? msg.targets : [];
+
+        const targets: DebugProtocol.StepInTarget[] = this.stepInTargets.map(
+            (target, i) => ({id: i + 1, label: target.name, line: target.line, column: target.column})
+        );
+        response.body = {targets};
+        this.sendResponse(response);
+    }
+
     protected stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): void {
         this.showOutput("stepOutRequest", OutputCategory.Request);
         if (this.sendCommand("stepout")) {
             this.variableHandles.reset();
+            this.locationHandles.reset();
             this.isRunning = true;
         } else {
             response.success = false;
@@ -590,6 +1123,37 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): void {
+        this.showOutput("pauseRequest", OutputCategory.Request);
+        if (this.config?.pauseWhileRunning !== true) {
+            response.success = false;
+            response.message = "Pausing a running program requires \"pauseWhileRunning\" in the launch config";
+        } else if (!this.isRunning || !this.requestPause()) {
+            response.success = false;
+        }
+        this.sendResponse(response);
+    }
+
+    protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments): void {
+        this.showOutput(`cancelRequest ${args.requestId ?? ""}`, OutputCategory.Request);
+        let cancelled: DebugProtocol.Response | undefined;
+        if (typeof args.requestId !== "undefined") {
+            cancelled = this.cancellableRequests.get(args.requestId);
+        }
+        if (typeof cancelled !== "undefined") {
+            //Respond now and drop the real response when it arrives, since the debugger can't skip a command
+            this.cancellableRequests.delete(cancelled.request_seq);
+            this.cancelledRequests.add(cancelled.request_seq);
+            cancelled.success = false;
+            cancelled.message = "cancelled";
+            super.sendResponse(cancelled);
+
+            //While stopped, the debugger takes a pause request as a request to abort the current evaluation
+            this.requestPause();
+        }
+        this.sendResponse(response);
+    }
+
     protected async setVariableRequest(
         response: DebugProtocol.SetVariableResponse,
         args: DebugProtocol.SetVariableArguments
@@ -603,17 +1167,18 @@ export class LuaDebugSession extends LoggingDebugSession {
             msg = await this.waitForCommandResponse(`exec ${args.name} = ${args.value}; return ${args.name}`);
 
         } else if (args.name === metatableDisplayName) {
-            const name = this.variableHandles.get(args.variablesReference);
+            const name = this.assert(this.variableHandles.get(args.variablesReference)).expression;
             this.showOutput(`setVariableRequest ${name}[[metatable]] = ${args.value}`, OutputCategory.Request);
             msg = await this.waitForCommandResponse(`eval setmetatable(${name}, ${args.value})`);
 
         } else if (args.name === tableLengthDisplayName) {
-            const name = this.variableHandles.get(args.variablesReference);
+            const name = this.assert(this.variableHandles.get(args.variablesReference)).expression;
             this.showOutput(`setVariableRequest ${name}[[length]] = ${args.value}`, OutputCategory.Request);
             msg = await this.waitForCommandResponse(`eval #${name}`);
 
         } else {
-            const name = `${this.variableHandles.get(args.variablesReference)}[${args.name}]`;
+            const handle = this.assert(this.variableHandles.get(args.variablesReference));
+            const name = `${handle.expression}[${handle.keys?.get(args.name) ?? args.name}]`;
             this.showOutput(`setVariableRequest ${name} = ${args.value}`, OutputCategory.Request);
             msg = await this.waitForCommandResponse(`exec ${name} = ${args.value}; return ${name}`);
         }
@@ -636,8 +1201,9 @@ export class LuaDebugSession extends LoggingDebugSession {
         response: DebugProtocol.EvaluateResponse,
         args: DebugProtocol.EvaluateArguments
     ): Promise<void> {
-        const expression = args.expression;
-        this.showOutput(`evaluateRequest ${expression}`, OutputCategory.Request);
+        const {expression, specifiers} = parseFormatSpecifiers(args.expression);
+        this.showOutput(`evaluateRequest ${args.expression}`, OutputCategory.Request);
+        this.cancellableRequests.set(response.request_seq, response);
 
         if (typeof args.frameId !== "undefined") {
             const {threadId, frame} = parseFrameId(args.frameId);
@@ -645,7 +1211,13 @@ export class LuaDebugSession extends LoggingDebugSession {
             await this.waitForCommandResponse(`frame ${frame}`);
         }
 
-        const msg = await this.waitForCommandResponse(`eval ${expression}`);
+        //Hovers (and watches, if configured) only read values, so they can't change the program's behavior.
+        //Their values are marked raw, so expanding them doesn't call metamethods either.
+        const isRaw = args.context === "hover" || (args.context === "watch" && this.config?.rawWatch === true);
+        const evaluateSpecifiers = isRaw ? [...specifiers, "raw"] : specifiers;
+        const msg = await this.waitForCommandResponse(
+            addFormatSpecifiers(`${isRaw ? "peek" : "eval"} ${expression}`, evaluateSpecifiers, args.format)
+        );
 
         const result = this.handleEvaluationResult(expression, msg);
         if (!result.success) {
@@ -659,8 +1231,200 @@ export class LuaDebugSession extends LoggingDebugSession {
 
         } else {
             response.body = {result: result.value, variablesReference: result.variablesReference};
+            this.setVariableFormats([response.body], evaluateSpecifiers);
+        }
+
+        this.sendResponse(response);
+    }
+
+    protected async completionsRequest(
+        response: DebugProtocol.CompletionsResponse,
+        args: DebugProtocol.CompletionsArguments
+    ): Promise<void> {
+        this.showOutput(`completionsRequest ${args.text}`, OutputCategory.Request);
+
+        //Split text before the cursor into a table expression, separator and partial name (ex. "foo.bar", ":", "ba")
+        const text = args.text.substr(0, args.column - 1);
+        const match = /(?:((?:[A-Za-z_]\w*\s*\.\s*)*[A-Za-z_]\w*)\s*([.:])\s*)?([A-Za-z_]\w*)?$/.exec(text) ?? [];
+        const tableExpression = match[1] as string | undefined;
+        const separator = match[2] as string | undefined;
+        const partialName = (match[3] as string | undefined) ?? "";
+
+        if (typeof args.frameId !== "undefined") {
+            const {threadId, frame} = parseFrameId(args.frameId);
+            await this.waitForCommandResponse(`thread ${threadId}`);
+            await this.waitForCommandResponse(`frame ${frame}`);
         }
 
+        const cmd = typeof tableExpression !== "undefined" ? `complete ${tableExpression}` : "complete";
+        const msg = await this.waitForCommandResponse(cmd);
+
+        const targets: DebugProtocol.CompletionItem[] = [];
+        if (msg.type === "completions") {
+            for (const completion of msg.completions) {
+                if (!completion.name.startsWith(partialName)) {
+                    continue;
+                }
+                const isFunction = completion.type === "function";
+                if (separator === ":" && !isFunction) {
+                    continue;
+                }
+                let itemType: DebugProtocol.CompletionItemType;
+                if (completion.kind === "field") {
+                    itemType = isFunction ? "method" : "field";
+                } else {
+                    itemType = isFunction ? "function" : "variable";
+                }
+                targets.push({label: completion.name, type: itemType});
+            }
+        }
+        targets.sort((a, b) => a.label.localeCompare(b.label));
+
+        response.body = {targets};
+        this.sendResponse(response);
+    }
+
+    protected async sourceRequest(
+        response: DebugProtocol.SourceResponse,
+        args: DebugProtocol.SourceArguments
+    ): Promise<void> {
+        this.showOutput(`sourceRequest ${args.sourceReference}`, OutputCategory.Request);
+
+        //Chunks can only be fetched while stopped, so remember them for use while running
+        let text = this.chunkTexts.get(args.sourceReference);
+        if (typeof text === "undefined" || !this.isRunning) {
+            const msg = await this.waitForCommandResponse(`chunk ${args.sourceReference}`);
+            if (msg.type === "chunk") {
+                text = msg.text;
+                this.chunkTexts.set(args.sourceReference, text);
+            } else if (typeof text === "undefined") {
+                response.success = false;
+                response.message = msg.type === "error" ? msg.error : "Source not available";
+                this.sendResponse(response);
+                return;
+            }
+        }
+
+        response.body = {content: text, mimeType: "text/x-lua"};
+        this.sendResponse(response);
+    }
+
+    //Locations aren't part of this protocol version yet, so they arrive as a custom request
+    protected customRequest(command: string, response: DebugProtocol.Response, args: unknown): void {
+        if (command === "locations") {
+            this.locationsRequest(response, args as {locationReference: number});
+        } else if (command === "copyValue") {
+            void this.copyValueRequest(response, args as CopyValueArguments);
+        } else {
+            super.customRequest(command, response, args);
+        }
+    }
+
+    private locationsRequest(response: DebugProtocol.Response, {locationReference}: {locationReference: number}) {
+        this.showOutput(`locationsRequest ${locationReference}`, OutputCategory.Request);
+
+        const location = this.locationHandles.get(locationReference) as ValueLocation | undefined;
+        if (typeof location !== "undefined") {
+            response.body = location;
+        } else {
+            response.success = false;
+        }
+        this.sendResponse(response);
+    }
+
+    private async copyValueRequest(response: DebugProtocol.Response, args: CopyValueArguments) {
+        this.showOutput(`copyValueRequest ${args.variablesReference} ${args.format}`, OutputCategory.Request);
+
+        //Expandable values are found by handle, and anything else by its evaluate name
+        let expression = args.evaluateName;
+        if (args.variablesReference > 0) {
+            const handle = this.variableHandles.get(args.variablesReference) as VariableHandle | undefined;
+            if (typeof handle !== "undefined" && typeof handle.page === "undefined") {
+                expression = handle.expression.replace(/^[$@]/, "");
+            }
+        }
+        if (typeof expression === "undefined") {
+            response.success = false;
+            response.message = "Value can't be copied";
+            this.sendResponse(response);
+            return;
+        }
+
+        const msg = await this.waitForCommandResponse(
+            `copy ${args.format} ${args.maxDepth} ${args.maxFields} ${expression}`
+        );
+        if (msg.type === "literal") {
+            response.body = {text: msg.text};
+        } else {
+            response.success = false;
+            response.message = msg.type === "error" ? this.filterErrorMessage(msg.error) : "Value can't be copied";
+        }
+        this.sendResponse(response);
+    }
+
+    protected async disassembleRequest(
+        response: DebugProtocol.DisassembleResponse,
+        args: DebugProtocol.DisassembleArguments
+    ): Promise<void> {
+        this.showOutput(
+            `disassembleRequest ${args.memoryReference} ${args.instructionOffset}/${args.instructionCount}`,
+            OutputCategory.Request
+        );
+
+        const offset = typeof args.offset !== "undefined" ? args.offset : 0;
+        const {funcId, pc} = parseInstructionAddress(Number(args.memoryReference) + offset);
+
+        //Functions don't change, so their disassembly can be re-used while running
+        let disassembly = this.disassemblies.get(funcId);
+        if (typeof disassembly === "undefined") {
+            const msg = await this.waitForCommandResponse(`disasm ${funcId}`);
+            if (msg.type !== "disassembly") {
+                response.success = false;
+                response.message = msg.type === "error" ? msg.error : "Disassembly not available";
+                this.sendResponse(response);
+                return;
+            }
+            disassembly = msg;
+            this.disassemblies.set(funcId, disassembly);
+        }
+
+        let location: Source | undefined;
+        const sourcePath = this.resolvePath(disassembly.source);
+        if (typeof sourcePath !== "undefined") {
+            location = new Source(path.basename(sourcePath), sourcePath);
+        } else if (typeof disassembly.sourceId !== "undefined") {
+            location = this.createChunkSource(disassembly.source, disassembly.sourceId);
+        }
+
+        //Exactly the requested number of instructions must be returned, so pad with invalid ones
+        const instructionOffset = typeof args.instructionOffset !== "undefined" ? args.instructionOffset : 0;
+        const startPc = pc + instructionOffset;
+        const instructions: DebugProtocol.DisassembledInstruction[] = [];
+        for (let instructionPc = startPc; instructionPc < startPc + args.instructionCount; ++instructionPc) {
+            const address = makeInstructionAddress(funcId, instructionPc);
+            const instruction = disassembly.instructions[instructionPc - 1] as LuaDebug.Instruction | undefined;
+            if (typeof instruction === "undefined") {
+                instructions.push({address, instruction: "??"});
+            } else {
+                let text = `${instruction.opcode.padEnd(10)} ${instruction.operands}`;
+                if (typeof instruction.comment !== "undefined") {
+                    text = `${text.padEnd(24)} ; ${instruction.comment}`;
+                }
+                instructions.push({address, instruction: text, location, line: instruction.line});
+            }
+        }
+
+        response.body = {instructions};
+        this.sendResponse(response);
+    }
+
+    protected loadedSourcesRequest(
+        response: DebugProtocol.LoadedSourcesResponse,
+        args: DebugProtocol.LoadedSourcesArguments
+    ): void {
+        this.showOutput("loadedSourcesRequest", OutputCategory.Request);
+
+        response.body = {sources: Array.from(this.loadedSources.values())};
         this.sendResponse(response);
     }
 
@@ -683,6 +1447,67 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected disconnectRequest(
+        response: DebugProtocol.DisconnectResponse,
+        args: DebugProtocol.DisconnectArguments
+    ): void {
+        this.showOutput("disconnectRequest", OutputCategory.Request);
+
+        //Leave attached programs running
+        if (this.process === null && this.debugPipe !== null) {
+            this.sendCommand("detach");
+            this.debugPipe.close();
+            this.debugPipe = null;
+            this.isRunning = false;
+        }
+
+        super.disconnectRequest(response, args);
+    }
+
+    private async prepareSession() {
+        const config = this.assert(this.config);
+
+        await this.waitForConfiguration();
+
+        if (config.scriptFiles) {
+            this.pendingScripts = config.scriptFiles;
+        }
+
+        if (config.ignorePatterns) {
+            this.pendingIgnorePatterns = config.ignorePatterns;
+        }
+
+        if (config.formatters) {
+            this.pendingFormatters = config.formatters;
+        }
+
+        this.pendingPauseWhileRunning = config.pauseWhileRunning === true;
+
+        if (!path.isAbsolute(config.cwd)) {
+            config.cwd = path.resolve(config.workspacePath, config.cwd);
+        }
+    }
+
+    //Fields are separated by tabs, since expressions can contain spaces
+    private getFormatterCommand(formatter: ValueFormatterConfig) {
+        let match: string;
+        if (typeof formatter.metatable !== "undefined") {
+            match = `metatable ${formatter.metatable}`;
+        } else if (typeof formatter.class !== "undefined") {
+            match = `class ${formatter.class}`;
+        } else if (typeof formatter.predicate !== "undefined") {
+            match = `predicate ${formatter.predicate}`;
+        } else {
+            return null;
+        }
+        const children = typeof formatter.children !== "undefined" ? `\t${formatter.children}` : "";
+        return `format set ${match}\t${formatter.display}${children}`;
+    }
+
+    private isConnected() {
+        return this.process !== null || this.debugPipe !== null;
+    }
+
     private handleEvaluationResult(
         expression: string,
         msg: LuaDebug.Message
@@ -692,10 +1517,18 @@ export class LuaDebugSession extends LoggingDebugSession {
                 return {success: true, value: "nil", variablesReference: 0};
             } else if (msg.results.length === 1) {
                 const result = msg.results[0];
-                const variablesReference = result.type === "table" ? this.variableHandles.create(expression) : 0;
+                const resultExpression = typeof result.handle !== "undefined"
+                    ? `${handleAccessor}(${result.handle})`
+                    : expression;
+                let variablesReference = 0;
+                if (result.type === "table") {
+                    variablesReference = this.createVariableHandle(resultExpression, expression);
+                } else if (result.type === "function") {
+                    variablesReference = this.createVariableHandle(`$${resultExpression}`, expression);
+                }
                 return {success: true, value: this.getValueString(result), variablesReference};
             } else {
-                const variablesReference = this.variableHandles.create(`@({${expression}})`);
+                const variablesReference = this.createVariableHandle(`@({${expression}})`, `({${expression}})`);
                 const value = `(${msg.results.map(r => this.getValueString(r)).join(", ")})`;
                 return {success: true, value, variablesReference};
             }
@@ -708,19 +1541,39 @@ export class LuaDebugSession extends LoggingDebugSession {
         }
     }
 
-    private buildVariable(variable: LuaDebug.Variable, refName: string): Variable;
-    private buildVariable(value: LuaDebug.Value, refName: string, variableName: string): Variable;
-    private buildVariable(variable: LuaDebug.Variable | LuaDebug.Value, refName: string, variableName?: string) {
+    //The ref name is used to find the value when it has no handle, and the evaluate name is what's shown to the user
+    private buildVariable(
+        variable: LuaDebug.Variable,
+        refName: string,
+        evaluateName: string | undefined
+    ): DebugProtocol.Variable;
+    private buildVariable(
+        value: LuaDebug.Value,
+        refName: string,
+        evaluateName: string | undefined,
+        variableName: string
+    ): DebugProtocol.Variable;
+    private buildVariable(
+        variable: LuaDebug.Variable | LuaDebug.Value,
+        refName: string,
+        evaluateName: string | undefined,
+        variableName?: string
+    ) {
+        const expression = typeof variable.handle !== "undefined" ? `${handleAccessor}(${variable.handle})` : refName;
         let valueStr: string;
         let ref: number | undefined;
         if (refName === "...") {
             valueStr = typeof variable.error !== "undefined"
                 ? `[error: ${this.filterErrorMessage(variable.error)}]`
                 : `(${variable.value ?? ""})`;
-            ref = variable.type === "table" ? this.variableHandles.create("@({...})") : 0;
+            ref = variable.type === "table" ? this.createVariableHandle("@({...})", "({...})") : 0;
         } else if (variable.type === "table") {
             valueStr = this.getValueString(variable);
-            ref = this.variableHandles.create(refName);
+            ref = this.createVariableHandle(expression, evaluateName);
+        } else if (variable.type === "function") {
+            //Functions are marked so they expand into their upvalues and definition instead of fields
+            valueStr = this.getValueString(variable);
+            ref = this.createVariableHandle(`$${expression}`, evaluateName);
         } else {
             valueStr = this.getValueString(variable);
         }
@@ -728,13 +1581,156 @@ export class LuaDebugSession extends LoggingDebugSession {
         const indexedVariables = typeof variable.length !== "undefined" && variable.length > 0
             ? variable.length + 1
             : variable.length;
-        if (variable.type === "table") {
-            return new Variable(name, valueStr, ref, indexedVariables, 1);
-        } else {
-            return new Variable(name, valueStr, ref, indexedVariables);
+        const result: DebugProtocol.Variable = variable.type === "table"
+            ? new Variable(name, valueStr, ref, indexedVariables, 1)
+            : new Variable(name, valueStr, ref, indexedVariables);
+        result.evaluateName = evaluateName;
+        result.type = variable.type;
+        if (name === metatableDisplayName) {
+            result.presentationHint = {kind: "virtual"};
+        } else if (name === tableLengthDisplayName) {
+            result.presentationHint = {kind: "virtual", attributes: ["readOnly"]};
+        } else if (variable.type === "function") {
+            result.presentationHint = {kind: "method"};
+        }
+        return result;
+    }
+
+    private createVariableHandle(expression: string, evaluateName?: string) {
+        return this.variableHandles.create({expression, evaluateName, specifiers: []});
+    }
+
+    //Fields are fetched in groups when there are too many to sort and send at once
+    private buildPageVariables(
+        parent: VariableHandle,
+        kind: VariablePage["kind"],
+        namedCount: number,
+        scope?: ScopeType
+    ) {
+        const variables: DebugProtocol.Variable[] = [];
+        for (let start = 0; start < namedCount; start += namedPageSize) {
+            const count = Math.min(namedPageSize, namedCount - start);
+            const variablesReference = this.variableHandles.create({
+                expression: parent.expression,
+                evaluateName: parent.evaluateName,
+                specifiers: [],
+                page: {scope, kind, start, count}
+            });
+            const name = `[${start}..${start + count - 1}]`;
+            const variable: DebugProtocol.Variable = new Variable(name, "", variablesReference);
+            variable.namedVariables = count;
+            variable.presentationHint = {kind: "virtual"};
+            variables.push(variable);
+        }
+        return variables;
+    }
+
+    //Expanding a value shows its children with the same format specifiers
+    private setVariableFormats(variables: Array<{variablesReference: number}>, specifiers: string[]) {
+        if (specifiers.length === 0) {
+            return;
+        }
+        for (const variable of variables) {
+            const handle = this.variableHandles.get(variable.variablesReference);
+            if (variable.variablesReference > 0 && typeof handle !== "undefined") {
+                handle.specifiers = specifiers;
+            }
         }
     }
 
+    private buildFunctionVariables(props: LuaDebug.FunctionProperties, funcName: string, evaluateName?: string) {
+        const variables: DebugProtocol.Variable[] = [];
+        for (const upvalue of props.upvalues) {
+            const name = upvalue.name !== "" ? upvalue.name : `[[upvalue ${upvalue.index}]]`;
+            const variable = this.buildVariable(
+                upvalue,
+                `${upvalueAccessor}(${funcName}, ${upvalue.index})`,
+                typeof evaluateName !== "undefined"
+                    ? `${upvalueAccessor}(${evaluateName}, ${upvalue.index})`
+                    : evaluateName,
+                name
+            );
+            if (typeof upvalue.id !== "undefined") {
+                variable.type = `${upvalue.type} (upvalue ${upvalue.id})`;
+            }
+            variable.presentationHint = {...variable.presentationHint, attributes: ["readOnly"]};
+            variables.push(variable);
+        }
+
+        if (typeof props.environment !== "undefined") {
+            const environment = this.buildVariable(
+                props.environment,
+                `${environmentAccessor}(${funcName})`,
+                typeof evaluateName !== "undefined" ? `${environmentAccessor}(${evaluateName})` : evaluateName,
+                environmentDisplayName
+            );
+            environment.presentationHint = {kind: "virtual", attributes: ["readOnly"]};
+            variables.push(environment);
+        }
+
+        if (typeof props.parameters !== "undefined") {
+            variables.push(this.buildVirtualVariable(parametersDisplayName, `${props.parameters}`, "number"));
+        }
+
+        if (typeof props.isVararg !== "undefined") {
+            variables.push(this.buildVirtualVariable(varargDisplayName, `${props.isVararg}`, "boolean"));
+        }
+
+        const definition = props.definition;
+        if (typeof definition !== "undefined") {
+            const lines = definition.line > 0 ? `:${definition.line}-${definition.lastLine}` : "";
+            const variable: LocatedVariable = this.buildVirtualVariable(
+                definitionDisplayName,
+                `${definition.source}${lines}`,
+                "string"
+            );
+
+            //Mapped source
+            let location: ValueLocation | undefined;
+            if (typeof definition.mappedLocation !== "undefined") {
+                const mappedPath = this.resolvePath(definition.mappedLocation.source);
+                if (typeof mappedPath !== "undefined") {
+                    location = {
+                        source: new Source(path.basename(mappedPath), mappedPath),
+                        line: definition.mappedLocation.line
+                    };
+                }
+            }
+
+            //Un-mapped source
+            const sourcePath = this.resolvePath(definition.source);
+            if (typeof location === "undefined" && typeof sourcePath !== "undefined") {
+                location = {
+                    source: new Source(path.basename(sourcePath), sourcePath),
+                    line: Math.max(definition.line, 1),
+                    endLine: definition.lastLine
+                };
+            }
+
+            //Chunk loaded from a string
+            if (typeof location === "undefined" && typeof definition.sourceId !== "undefined") {
+                location = {
+                    source: this.createChunkSource(definition.source, definition.sourceId),
+                    line: Math.max(definition.line, 1),
+                    endLine: definition.lastLine
+                };
+            }
+
+            if (typeof location !== "undefined") {
+                variable.valueLocationReference = this.locationHandles.create(location);
+            }
+            variables.push(variable);
+        }
+        return variables;
+    }
+
+    private buildVirtualVariable(name: string, value: string, type: string) {
+        const variable: DebugProtocol.Variable = new Variable(name, value);
+        variable.type = type;
+        variable.presentationHint = {kind: "virtual", attributes: ["readOnly"]};
+        return variable;
+    }
+
     private assert<T>(value: T | null | undefined, message = "assertion failed"): T {
         if (value === null || typeof value === "undefined") {
             this.sendEvent(new OutputEvent(message));
@@ -803,20 +1799,103 @@ export class LuaDebugSession extends LoggingDebugSession {
         env[luaPathKey] = `${luaPath}${this.assert(this.config).extensionPath}/debugger/?.lua`;
     }
 
-    private setBreakpoint(filePath: string, breakpoint: DebugProtocol.SourceBreakpoint) {
+    private async setBreakpoint(
+        filePath: string,
+        breakpoint: DebugProtocol.SourceBreakpoint
+    ): Promise<LuaDebug.Breakpoint | undefined> {
         const cmd = typeof breakpoint.condition !== "undefined"
             ? `break set ${filePath}:${breakpoint.line} ${breakpoint.condition}`
             : `break set ${filePath}:${breakpoint.line}`;
-        return this.waitForCommandResponse(cmd);
+        const resultMsg = await this.waitForCommandResponse(cmd);
+        if (resultMsg.type !== "breakpoints") {
+            return;
+        }
+        let result = resultMsg.breakpoints[0];
+        if (typeof breakpoint.hitCondition !== "undefined") {
+            const hitMsg = await this.waitForCommandResponse(
+                `break hit ${filePath}:${breakpoint.line} ${breakpoint.hitCondition}`
+            );
+            if (hitMsg.type === "error") {
+                //Without its hit condition the breakpoint would stop on every hit, so it's removed instead
+                const message = `${hitMsg.error}: "${breakpoint.hitCondition}"`;
+                this.showOutput(message, OutputCategory.Error);
+                await this.waitForCommandResponse(`break delete ${filePath}:${breakpoint.line}`);
+                return {...result, verified: false, message};
+            } else if (hitMsg.type === "breakpoints") {
+                result = hitMsg.breakpoints[0];
+            }
+        }
+        if (typeof breakpoint.logMessage !== "undefined") {
+            const logMsg = await this.waitForCommandResponse(
+                `break log ${filePath}:${breakpoint.line} ${breakpoint.logMessage}`
+            );
+            if (logMsg.type === "breakpoints") {
+                result = logMsg.breakpoints[0];
+            }
+        }
+        return result;
+    }
+
+    private createBreakpointResult(breakpoint: DebugProtocol.SourceBreakpoint) {
+        const result: DebugProtocol.Breakpoint = new Breakpoint(false, breakpoint.line);
+        result.id = this.nextBreakpointId++;
+        return result;
+    }
+
+    private updateBreakpointResult(result: DebugProtocol.Breakpoint, breakpoint?: LuaDebug.Breakpoint) {
+        if (typeof breakpoint === "undefined") {
+            result.verified = false;
+            result.message = "failed to set breakpoint";
+            return;
+        }
+        result.verified = breakpoint.verified;
+        result.line = breakpoint.line;
+        result.message = breakpoint.message;
+        this.breakpointsByLuaId.set(breakpoint.id, result);
+    }
+
+    private forgetBreakpointResults(results: DebugProtocol.Breakpoint[]) {
+        for (const [luaId, result] of this.breakpointsByLuaId) {
+            if (results.includes(result)) {
+                this.breakpointsByLuaId.delete(luaId);
+            }
+        }
     }
 
     private deleteBreakpoint(filePath: string, breakpoint: DebugProtocol.SourceBreakpoint) {
         return this.waitForCommandResponse(`break delete ${filePath}:${breakpoint.line}`);
     }
 
+    private setFunctionBreakpoint(breakpoint: DebugProtocol.FunctionBreakpoint) {
+        const cmd = typeof breakpoint.condition !== "undefined"
+            ? `funcbreak set ${breakpoint.name} ${breakpoint.condition}`
+            : `funcbreak set ${breakpoint.name}`;
+        return this.waitForCommandResponse(cmd);
+    }
+
+    private setDataBreakpoint(breakpoint: DebugProtocol.DataBreakpoint) {
+        const cmd = typeof breakpoint.condition !== "undefined"
+            ? `databreak set ${breakpoint.dataId} ${breakpoint.condition}`
+            : `databreak set ${breakpoint.dataId}`;
+        return this.waitForCommandResponse(cmd);
+    }
+
+    private async setExceptionFilters(filters: DebugProtocol.ExceptionFilterOptions[]) {
+        await this.waitForCommandResponse("exception clear");
+        for (const filter of filters) {
+            const cmd = typeof filter.condition !== "undefined" && filter.condition.length > 0
+                ? `exception set ${filter.filterId} ${filter.condition}`
+                : `exception set ${filter.filterId}`;
+            await this.waitForCommandResponse(cmd);
+        }
+    }
+
     private async onDebuggerStop(msg: LuaDebug.DebugBreak) {
         this.isRunning = false;
 
+        //Discard pause request if debugger stopped for another reason first
+        this.removePauseFile();
+
         if (this.pendingScripts) {
             for (const scriptFile of this.pendingScripts) {
                 const resultMsg = await this.waitForCommandResponse(`script ${scriptFile}`);
@@ -849,19 +1928,76 @@ export class LuaDebugSession extends LoggingDebugSession {
             this.pendingIgnorePatterns = null;
         }
 
+        if (this.pendingFormatters) {
+            for (const formatter of this.pendingFormatters) {
+                const cmd = this.getFormatterCommand(formatter);
+                if (cmd === null) {
+                    this.showOutput(
+                        `Formatter for "${formatter.display}" needs a metatable, class or predicate`,
+                        OutputCategory.Error
+                    );
+                    continue;
+                }
+                const resultMsg = await this.waitForCommandResponse(cmd);
+                if (resultMsg.type === "error") {
+                    this.showOutput(resultMsg.error, OutputCategory.Error);
+                }
+            }
+            this.pendingFormatters = null;
+        }
+
+        if (this.pendingPauseWhileRunning) {
+            this.pendingPauseWhileRunning = false;
+            const resultMsg = await this.waitForCommandResponse("pause on");
+            if (resultMsg.type === "result" && resultMsg.results[0]?.value !== "true") {
+                this.showOutput("Pausing isn't available without a pause file or socket", OutputCategory.Error);
+            } else if (resultMsg.type === "error") {
+                this.showOutput(resultMsg.error, OutputCategory.Error);
+            }
+        }
+
         if (this.breakpointsPending) {
             this.breakpointsPending = false;
 
             await this.waitForCommandResponse("break clear");
+            this.breakpointsByLuaId.clear();
 
             for (const filePath in this.fileBreakpoints) {
                 const breakpoints = this.fileBreakpoints[filePath] as DebugProtocol.SourceBreakpoint[];
-                for (const breakpoint of breakpoints) {
-                    await this.setBreakpoint(filePath, breakpoint);
+                const results = this.fileBreakpointResults[filePath] as DebugProtocol.Breakpoint[];
+                for (let i = 0; i < breakpoints.length; ++i) {
+                    this.updateBreakpointResult(results[i], await this.setBreakpoint(filePath, breakpoints[i]));
+                    this.sendEvent(new BreakpointEvent("changed", results[i] as Breakpoint));
                 }
             }
         }
 
+        if (this.functionBreakpointsPending) {
+            this.functionBreakpointsPending = false;
+
+            await this.waitForCommandResponse("funcbreak clear");
+
+            for (const breakpoint of this.functionBreakpoints) {
+                await this.setFunctionBreakpoint(breakpoint);
+            }
+        }
+
+        if (this.dataBreakpointsPending) {
+            this.dataBreakpointsPending = false;
+
+            await this.waitForCommandResponse("databreak clear");
+
+            for (const breakpoint of this.dataBreakpoints) {
+                await this.setDataBreakpoint(breakpoint);
+            }
+        }
+
+        if (this.exceptionFiltersPending) {
+            this.exceptionFiltersPending = false;
+
+            await this.setExceptionFilters(this.exceptionFilters);
+        }
+
         if (msg.breakType === "error") {
             this.showOutput(msg.message, OutputCategory.Error);
 
@@ -876,7 +2012,13 @@ export class LuaDebugSession extends LoggingDebugSession {
             this.assert(this.sendCommand("autocont"));
 
         } else {
-            const evt: DebugProtocol.StoppedEvent = new StoppedEvent("breakpoint", msg.threadId);
+            let reason = "breakpoint";
+            if (msg.breakType === "pause") {
+                reason = "pause";
+            } else if (msg.breakType === "data") {
+                reason = "data breakpoint";
+            }
+            const evt: DebugProtocol.StoppedEvent = new StoppedEvent(reason, msg.threadId);
             evt.body.allThreadsStopped = true;
             this.sendEvent(evt);
         }
@@ -898,6 +2040,12 @@ export class LuaDebugSession extends LoggingDebugSession {
             this.showOutput(JSON.stringify(msg), OutputCategory.Message);
             if (msg.type === "debugBreak") {
                 debugBreak = msg;
+            } else if (msg.type === "log") {
+                this.onDebuggerLog(msg);
+            } else if (msg.type === "loadedSource") {
+                this.onDebuggerLoadedSource(msg);
+            } else if (msg.type === "breakpointUpdate") {
+                this.onDebuggerBreakpointUpdate(msg);
             } else {
                 this.handleDebugMessage(msg);
             }
@@ -912,8 +2060,71 @@ export class LuaDebugSession extends LoggingDebugSession {
         }
     }
 
+    private onDebuggerBreakpointUpdate(msg: LuaDebug.BreakpointUpdate) {
+        const result = this.breakpointsByLuaId.get(msg.breakpoint.id);
+        if (typeof result !== "undefined") {
+            this.updateBreakpointResult(result, msg.breakpoint);
+            this.sendEvent(new BreakpointEvent("changed", result as Breakpoint));
+        }
+    }
+
+    private onDebuggerLog(msg: LuaDebug.Log) {
+        const evt: DebugProtocol.OutputEvent = new OutputEvent(`${msg.message}\n`, "console");
+        const filePath = this.resolvePath(msg.file);
+        if (typeof filePath !== "undefined") {
+            evt.body.source = new Source(path.basename(filePath), filePath);
+            evt.body.line = msg.line;
+        }
+        this.sendEvent(evt);
+    }
+
+    private createChunkSource(name: string, sourceId: number) {
+        const source = new Source(name);
+        source.sourceReference = sourceId;
+        (source as DebugProtocol.Source).origin = "loaded from string";
+        (source as DebugProtocol.Source).presentationHint = "deemphasize";
+        return source;
+    }
+
+    private onDebuggerLoadedSource(msg: LuaDebug.LoadedSource) {
+        const sources: Source[] = [];
+        if (typeof msg.path !== "undefined") {
+            const filePath = this.resolvePath(msg.path);
+            if (typeof filePath !== "undefined") {
+                sources.push(new Source(path.basename(filePath), filePath));
+            } else {
+                //Show files which couldn't be found, to help diagnose bad scriptRoots
+                const source = new Source(path.basename(msg.path));
+                (source as DebugProtocol.Source).origin = `not found: ${msg.path}`;
+                (source as DebugProtocol.Source).presentationHint = "deemphasize";
+                sources.push(source);
+            }
+
+            if (typeof msg.mappedPaths !== "undefined") {
+                for (const mappedPath of msg.mappedPaths) {
+                    const mappedFilePath = this.resolvePath(mappedPath);
+                    if (typeof mappedFilePath !== "undefined") {
+                        const origin = `mapped from ${path.basename(msg.path)}`;
+                        sources.push(new Source(path.basename(mappedFilePath), mappedFilePath, 0, origin));
+                    }
+                }
+            }
+
+        } else if (typeof msg.sourceId !== "undefined") {
+            sources.push(this.createChunkSource(msg.name, msg.sourceId));
+        }
+
+        for (const source of sources) {
+            const key = typeof source.path !== "undefined" ? source.path : `${source.name}#${source.sourceReference}`;
+            if (!this.loadedSources.has(key)) {
+                this.loadedSources.set(key, source);
+                this.sendEvent(new LoadedSourceEvent("new", source));
+            }
+        }
+    }
+
     private onDebuggerTerminated(result: string, category = OutputCategory.Info) {
-        if (this.process === null) {
+        if (!this.isConnected()) {
             return;
         }
 
@@ -922,6 +2133,23 @@ export class LuaDebugSession extends LoggingDebugSession {
             this.debugPipe = null;
         }
 
+        if (this.pauseFilePath !== null) {
+            this.removePauseFile();
+            try {
+                fs.rmdirSync(path.dirname(this.pauseFilePath));
+            } catch (err: unknown) {
+                this.showOutput(`error removing pause file directory: ${err}`, OutputCategory.Error);
+            }
+            this.pauseFilePath = null;
+        }
+
+        this.loadedSources.clear();
+        this.chunkTexts.clear();
+        this.disassemblies.clear();
+        this.activeLines.clear();
+        this.breakpointsByLuaId.clear();
+        this.locationHandles.reset();
+
         this.process = null;
         this.isRunning = false;
 
@@ -934,8 +2162,18 @@ export class LuaDebugSession extends LoggingDebugSession {
         this.sendEvent(new TerminatedEvent());
     }
 
+    private removePauseFile() {
+        if (this.pauseFilePath !== null) {
+            try {
+                fs.unlinkSync(this.pauseFilePath);
+            } catch (err: unknown) {
+                //The file only exists if a pause was requested
+            }
+        }
+    }
+
     private sendCommand(cmd: string) {
-        if (this.process === null || this.isRunning) {
+        if (!this.isConnected() || this.isRunning) {
             return false;
         }
 
@@ -943,7 +2181,7 @@ export class LuaDebugSession extends LoggingDebugSession {
         if (this.debugPipe) {
             this.debugPipe.write(`${cmd}\n`);
         } else {
-            this.assert(this.process.stdin).write(`${cmd}\n`);
+            this.assert(this.assert(this.process).stdin).write(`${cmd}\n`);
         }
         return true;
     }
@@ -960,6 +2198,27 @@ export class LuaDebugSession extends LoggingDebugSession {
         }
     }
 
+    private requestPause() {
+        if (this.pauseFilePath !== null) {
+            fs.writeFile(
+                this.pauseFilePath,
+                "",
+                err => {
+                    if (err) {
+                        this.showOutput(`error creating pause file: ${err}`, OutputCategory.Error);
+                    }
+                }
+            );
+            return true;
+
+        } else if (this.debugPipe !== null) {
+            //Debuggers communicating over a socket poll it for pause requests
+            this.debugPipe.write("pause\n");
+            return true;
+        }
+        return false;
+    }
+
     private showOutput(msg: string, category: OutputCategory) {
         if (msg.length === 0) {
             return;
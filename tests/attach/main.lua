@@ -0,0 +1,21 @@
+--Run with LuaSocket installed and lldebugger on LUA_PATH (ex. "lua5.1 main.lua"), then start "Attach" within 10
+--seconds. To test connecting instead, start "Attach (listen)" first and run "lua5.1 main.lua connect".
+--Stopping the debugger while the loop is running should detach and leave the program printing.
+
+local lldebugger = require("lldebugger")
+
+if arg[1] == "connect" then
+    lldebugger.connect("localhost", 33333)
+elseif not lldebugger.listen(33333, true, nil, 10) then
+    print("debugger didn't attach, running without it")
+end
+
+local count = 0
+local finish = os.time() + 30
+while os.time() < finish do
+    count = count + 1
+    if count % 10000000 == 0 then
+        print(count) --Breakpoint
+    end
+end
+print("done", count)
@@ -0,0 +1,28 @@
+--Break on the marked line, then use "Break on Value Change" on the fields named in the comments.
+--Each should stop on the line after the write, or in table.insert for the C write.
+
+local player = {health = 100, name = "player", position = {x = 0, y = 0}}
+local items = {}
+local nan = 0 / 0
+local values = {nan = nan}
+
+local function move(dx, dy)
+    player.position.x = player.position.x + dx --Stops when watching position.x
+    player.position.y = player.position.y + dy
+end
+
+local function hit(damage)
+    player.health = player.health - damage --Stops when watching health, unless damage is 0
+end
+
+print("start") --Breakpoint: watch player.health, player.position.x, items[1] and values.nan
+
+hit(0)
+hit(10)
+move(1, 0)
+move(0, 1)
+table.insert(items, "sword") --Stops in table.insert when watching items[1]
+values.nan = 0 / 0 --NaN is still NaN, so this shouldn't stop when watching values.nan
+values.nan = 1 --Stops when watching values.nan
+player = nil
+print("done")
@@ -0,0 +1,26 @@
+--Break on the marked line and evaluate the expressions in the comments from the debug console.
+
+local function spin()
+    while true do
+    end
+end
+
+local function count(n)
+    local total = 0
+    for i = 1, n do
+        total = total + i
+    end
+    return total
+end
+
+local co = coroutine.create(function()
+    coroutine.yield(1)
+end)
+
+print("start") --Breakpoint
+--spin() -> error: evaluation exceeded 10000000 instructions (Lua 5.1-5.3 only, LuaJIT runs it forever)
+--count(100) -> 5050
+--count(1e9) -> error: evaluation exceeded 10000000 instructions (or pause to cancel it, with pauseWhileRunning)
+--coroutine.yield() -> error: attempt to yield from an evaluation
+--coroutine.resume(co) -> true, 1
+print(count(10), co)
@@ -0,0 +1,10 @@
+--Set breakpoints on the marked lines with the hit counts shown, and check which iterations they stop on.
+
+local total = 0
+for i = 1, 10 do
+    total = total + i --Hit count: "5" -> stops when i is 5
+    total = total - 1 --Hit count: ">= 9" -> stops when i is 9 and 10
+    total = total * 1 --Hit count: "% 3" -> stops when i is 3, 6 and 9
+    total = total + 0 --Hit count: "> 8" -> unverified, since only "==", ">=" and "%" are supported
+end
+print(total) --Hit count: "2" -> never stops
@@ -0,0 +1,25 @@
+--Set a logpoint on the marked lines with the message shown. Each should log the values in the comment, which
+--come from the function hitting the logpoint, not its caller.
+
+local function update(id)
+    local health = id * 10
+    local name = "unit" .. id
+    print(name, health) --Logpoint: "{name} has {health}" -> "unit1 has 10", "unit2 has 20", ...
+    return health
+end
+
+local function run()
+    local health = -1
+    local name = "caller"
+    for i = 1, 3 do
+        update(i)
+    end
+    return name, health
+end
+
+local total = 0
+for i = 1, 3 do
+    total = total + update(i) --Logpoint: "{i}: {total}" -> "1: 0", "2: 10", "3: 30"
+end
+run()
+print(total)
@@ -0,0 +1,32 @@
+--Break on the marked line and expand the tables in the Variables view. "big" should be shown in pages of
+--named fields, and "array" in pages of elements. Changing the keys from the debug console then stepping should
+--show the new keys in the pages.
+
+local big = {}
+for i = 1, 5000 do
+    big["key" .. i] = i
+end
+
+local array = {}
+for i = 1, 5000 do
+    array[i] = i * 2
+end
+
+local mixed = {}
+for i = 1, 1500 do
+    mixed[i] = i
+    mixed["key" .. i] = tostring(i)
+end
+
+--Lua 5.2+ lists the fields __pairs gives, with the values it gives for them (a = 1, b = 2)
+local proxy = setmetatable({}, {
+    __pairs = function()
+        return next, {a = 1, b = 2}, nil
+    end
+})
+
+print("start", proxy) --Breakpoint
+--big.key1 = nil; big.newKey = 0 -> pages list newKey and no longer list key1 after stepping
+big.key2 = nil
+big.anotherKey = 0
+print(#array, mixed) --Breakpoint: key2 is gone from big, and anotherKey is listed